@@ -0,0 +1,47 @@
+// Copyright 2022 Joshua Honig. All rights reserved.
+// Use of this source code is governed by a MIT
+// license that can be found in the LICENSE file.
+
+import { Context, IContext, Maybe, withValue } from '@sabl/context';
+import { ConnTxnAccessor, Transactable, Txn } from './types';
+
+/**
+ * Create the context getters and setters for a connection
+ * type and its transaction type, with their own context keys.
+ * The result can be passed directly to {@link txn} or
+ * {@link txnChangeSet}. `name` is only used to label the keys.
+ */
+export function createTxnAccessor<
+  TConn extends Transactable<TTxn>,
+  TTxn extends Txn
+>(name: string): ConnTxnAccessor<TConn, TTxn> {
+  const ctxKeyConn = Symbol(name + 'Conn');
+  const ctxKeyTxn = Symbol(name + 'Txn');
+
+  function withConn(ctx: IContext, con: TConn): Context {
+    return withValue(ctx, ctxKeyConn, con);
+  }
+
+  function getConn(ctx: IContext): Maybe<TConn> {
+    return <Maybe<TConn>>ctx.value(ctxKeyConn);
+  }
+
+  function withTxn(ctx: IContext, txn: TTxn): Context {
+    return withValue(ctx, ctxKeyTxn, txn);
+  }
+
+  function getTxn(ctx: IContext): Maybe<TTxn> {
+    return <Maybe<TTxn>>ctx.value(ctxKeyTxn);
+  }
+
+  return {
+    withConn,
+    getConn,
+    getTransactable: getConn,
+    withTxn,
+    getTxn,
+    getApi(ctx: IContext): Maybe<TConn | TTxn> {
+      return getTxn(ctx) || getConn(ctx);
+    },
+  };
+}
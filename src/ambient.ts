@@ -0,0 +1,154 @@
+// Copyright 2022 Joshua Honig. All rights reserved.
+// Use of this source code is governed by a MIT
+// license that can be found in the LICENSE file.
+
+// Optional integration with Node's AsyncLocalStorage. Not
+// exported from the package index, so that other platforms
+// never load async_hooks. Import from '@sabl/txn/dist/ambient'.
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { Context, IContext, Maybe } from '@sabl/context';
+import { TxnRequiredError } from './errors';
+import { txn } from './index';
+import {
+  Transactable,
+  Txn,
+  TxnAccessor,
+  TxnCallback,
+  TxnRunner,
+  TxnRunnerConfig,
+  TxnOptionalRunOptions,
+  TxnRunOptions,
+} from './types';
+
+/**
+ * A {@link TxnAccessor} which also finds the transaction of
+ * the innermost enclosing {@link ambientTxn} run, for code
+ * which cannot take a context argument
+ */
+export interface AmbientTxnAccessor<T extends Txn> extends TxnAccessor<T> {
+  /** The ambient transaction, if any */
+  current(): Maybe<T>;
+
+  /** The ambient transaction. Throws `TxnRequiredError` if there is none */
+  require(): T;
+
+  /**
+   * Run `fn` with `txn` as the ambient transaction of all
+   * synchronous and asynchronous code it calls
+   */
+  enter<R>(txn: Maybe<T>, fn: () => R): R;
+}
+
+class AmbientTxnAccessorImpl<T extends Txn> implements AmbientTxnAccessor<T> {
+  readonly #accessor: TxnAccessor<T>;
+  readonly #storage = new AsyncLocalStorage<Maybe<T>>();
+
+  constructor(accessor: TxnAccessor<T>) {
+    this.#accessor = accessor;
+  }
+
+  readonly getTransactable = (ctx: IContext): Maybe<Transactable<T>> => {
+    return this.#accessor.getTransactable(ctx);
+  };
+
+  readonly getTxn = (ctx: IContext): Maybe<T> => {
+    // A transaction on the context takes precedence
+    return this.#accessor.getTxn(ctx) ?? this.current();
+  };
+
+  readonly withTxn = (ctx: IContext, txn: T): Context => {
+    return this.#accessor.withTxn(ctx, txn);
+  };
+
+  current(): Maybe<T> {
+    return this.#storage.getStore();
+  }
+
+  require(): T {
+    const txn = this.current();
+    if (txn == null) {
+      throw new TxnRequiredError();
+    }
+    return txn;
+  }
+
+  enter<R>(txn: Maybe<T>, fn: () => R): R {
+    return this.#storage.run(txn, fn);
+  }
+}
+
+/**
+ * Wrap a context accessor so that the transactions of
+ * {@link ambientTxn} runs are also available without a context
+ */
+export function ambientTxnAccessor<T extends Txn>(
+  accessor: TxnAccessor<T>
+): AmbientTxnAccessor<T> {
+  return new AmbientTxnAccessorImpl(accessor);
+}
+
+class AmbientTxnRunner<T extends Txn> implements TxnRunner<T> {
+  readonly #accessor: AmbientTxnAccessor<T>;
+  readonly #runner: TxnRunner<T>;
+
+  constructor(accessor: AmbientTxnAccessor<T>, config?: TxnRunnerConfig) {
+    this.#accessor = accessor;
+    this.#runner = txn<T>(accessor, config);
+  }
+
+  run<R>(
+    ctx: IContext,
+    fnOrOpts: TxnRunOptions | TxnOptionalRunOptions | TxnCallback<T, R>,
+    maybeFn?: TxnCallback<T, R>
+  ): Promise<R> {
+    return this.#exec(ctx, fnOrOpts, maybeFn, false);
+  }
+
+  in<R>(
+    ctx: IContext,
+    fnOrOpts: TxnRunOptions | TxnOptionalRunOptions | TxnCallback<T, R>,
+    maybeFn?: TxnCallback<T, R>
+  ): Promise<R> {
+    return this.#exec(ctx, fnOrOpts, maybeFn, true);
+  }
+
+  #exec<R>(
+    ctx: IContext,
+    fnOrOpts: TxnRunOptions | TxnOptionalRunOptions | TxnCallback<T, R>,
+    maybeFn: TxnCallback<T, R> | undefined,
+    join: boolean
+  ): Promise<R> {
+    if (typeof fnOrOpts === 'function') {
+      return this.#exec(ctx, {}, fnOrOpts, join);
+    }
+
+    // Let the runner reject a missing callback
+    const fn = maybeFn;
+    const wrapped = <TxnCallback<T, R>>(
+      (fn &&
+        ((ctx: IContext, txn: T) =>
+          this.#accessor.enter(txn, () => fn(ctx, txn))))
+    );
+
+    // The runner resolves the propagation of either option type
+    const opts = <TxnRunOptions>fnOrOpts;
+    return join
+      ? this.#runner.in(ctx, opts, wrapped)
+      : this.#runner.run(ctx, opts, wrapped);
+  }
+}
+
+/**
+ * Create a transaction runner which also makes the transaction
+ * available to all code called by the callback through
+ * `accessor.current()`, without passing a context. Runs
+ * started with any runner and a context which has no transaction
+ * join or nest within the ambient transaction.
+ */
+export function ambientTxn<T extends Txn>(
+  accessor: AmbientTxnAccessor<T>,
+  config?: TxnRunnerConfig
+): TxnRunner<T> {
+  return new AmbientTxnRunner(accessor, config);
+}
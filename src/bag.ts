@@ -0,0 +1,147 @@
+// Copyright 2022 Joshua Honig. All rights reserved.
+// Use of this source code is governed by a MIT
+// license that can be found in the LICENSE file.
+
+import { Context, IContext, Maybe, withValue } from '@sabl/context';
+import { TxnCompletedError, TxnRequiredError } from './errors';
+import { TxnBag } from './types';
+
+const ctxKeyBag = Symbol('TxnBag');
+
+/** Marks a key deleted in a nested bag, hiding the parent's value */
+const deleted = Symbol('deleted');
+
+/**
+ * The values set with {@link txnBag} for one transaction started
+ * by a runner. A nested transaction's bag reads through to its
+ * parent, and its changes are handed to the parent when it
+ * commits. All values are cleared when the transaction completes.
+ */
+export class TxnBagImpl implements TxnBag {
+  readonly #parent: Maybe<TxnBagImpl>;
+  readonly #values = new Map<unknown, unknown>();
+
+  #merged = false;
+  #done = false;
+
+  constructor(parent: Maybe<TxnBagImpl>) {
+    this.#parent = parent;
+  }
+
+  /** Get the bag of the current transaction, if any */
+  static from(ctx: IContext): Maybe<TxnBagImpl> {
+    return <Maybe<TxnBagImpl>>ctx.value(ctxKeyBag);
+  }
+
+  /** Set this bag on the context */
+  attach(ctx: IContext): Context {
+    return withValue(ctx, ctxKeyBag, this);
+  }
+
+  get<V = unknown>(key: unknown): V | undefined {
+    if (this.#merged) {
+      return (<TxnBagImpl>this.#parent).get(key);
+    }
+    if (this.#values.has(key)) {
+      const value = this.#values.get(key);
+      return value === deleted ? undefined : <V>value;
+    }
+    return this.#parent?.get(key);
+  }
+
+  has(key: unknown): boolean {
+    if (this.#merged) {
+      return (<TxnBagImpl>this.#parent).has(key);
+    }
+    if (this.#values.has(key)) {
+      return this.#values.get(key) !== deleted;
+    }
+    return this.#parent?.has(key) === true;
+  }
+
+  set(key: unknown, value: unknown): void {
+    if (this.#merged) {
+      // Nested transaction already committed to its parent
+      return (<TxnBagImpl>this.#parent).set(key, value);
+    }
+    this.#checkDone();
+    this.#values.set(key, value);
+  }
+
+  delete(key: unknown): boolean {
+    if (this.#merged) {
+      return (<TxnBagImpl>this.#parent).delete(key);
+    }
+    this.#checkDone();
+    const had = this.has(key);
+    if (this.#parent != null) {
+      this.#values.set(key, deleted);
+    } else {
+      this.#values.delete(key);
+    }
+    return had;
+  }
+
+  getOrAdd<V>(key: unknown, init: () => V): V {
+    if (this.has(key)) {
+      return <V>this.get(key);
+    }
+    const value = init();
+    this.set(key, value);
+    return value;
+  }
+
+  #checkDone() {
+    if (this.#done) {
+      throw new TxnCompletedError(
+        'Transaction is already committed or rolled back'
+      );
+    }
+  }
+
+  /**
+   * The transaction committed. If nested, hand the
+   * values to the parent. Otherwise discard them.
+   */
+  committed(): void {
+    const parent = this.#parent;
+    if (parent != null) {
+      for (const [key, value] of this.#values) {
+        if (value === deleted) {
+          parent.delete(key);
+        } else {
+          parent.set(key, value);
+        }
+      }
+      this.#merged = true;
+    } else {
+      this.#done = true;
+    }
+    this.#values.clear();
+  }
+
+  /** The transaction rolled back. Discard the values */
+  rolledBack(): void {
+    this.#done = true;
+    this.#values.clear();
+  }
+}
+
+/**
+ * Get the key-value bag of the current transaction, for state
+ * such as an identity map or a set of changed entities. Works
+ * with a transaction started by any runner. Callbacks which join
+ * the transaction see the same bag. A nested transaction sees
+ * its parent's values, and its own changes are passed on to the
+ * parent only if it commits. The bag is cleared when the
+ * outermost transaction commits or rolls back, after hooks and
+ * `afterCommit` callbacks have run. Values are not copied, so
+ * changes made to mutable values themselves are never undone.
+ */
+export function txnBag(ctx: IContext): TxnBag {
+  const bag = TxnBagImpl.from(ctx);
+  if (bag == null) {
+    throw new TxnRequiredError();
+  }
+  return bag;
+}
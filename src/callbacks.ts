@@ -0,0 +1,130 @@
+// Copyright 2022 Joshua Honig. All rights reserved.
+// Use of this source code is governed by a MIT
+// license that can be found in the LICENSE file.
+
+import { Context, IContext, Maybe, withValue } from '@sabl/context';
+import { TxnCompletedError, TxnRequiredError } from './errors';
+import { CtxCallback } from './types';
+
+const ctxKeyCallbacks = Symbol('TxnCallbacks');
+
+interface Entry {
+  readonly seq: number;
+  readonly fn: CtxCallback;
+}
+
+let entrySeq = 0;
+
+function merge(target: Entry[], source: Entry[]): void {
+  target.push(...source);
+  target.sort((a, b) => a.seq - b.seq);
+}
+
+/**
+ * The callbacks registered with {@link afterCommit} and
+ * {@link afterRollback} for one transaction started by a runner.
+ * A nested transaction's callbacks are handed to its parent
+ * when it commits, so they only run once the outermost
+ * transaction commits or rolls back.
+ */
+export class TxnCallbacks {
+  readonly #parent: Maybe<TxnCallbacks>;
+  readonly #commitFns: Entry[] = [];
+  readonly #rollbackFns: Entry[] = [];
+
+  #merged = false;
+  #done = false;
+
+  constructor(parent: Maybe<TxnCallbacks>) {
+    this.#parent = parent;
+  }
+
+  /** Get the callbacks of the current transaction, if any */
+  static from(ctx: IContext): Maybe<TxnCallbacks> {
+    return <Maybe<TxnCallbacks>>ctx.value(ctxKeyCallbacks);
+  }
+
+  /** Set these callbacks on the context */
+  attach(ctx: IContext): Context {
+    return withValue(ctx, ctxKeyCallbacks, this);
+  }
+
+  add(commit: boolean, fn: CtxCallback): void {
+    if (this.#merged) {
+      // Nested transaction already committed to its parent
+      return (<TxnCallbacks>this.#parent).add(commit, fn);
+    }
+    if (this.#done) {
+      throw new TxnCompletedError(
+        'Transaction is already committed or rolled back'
+      );
+    }
+    const entry = { seq: ++entrySeq, fn };
+    (commit ? this.#commitFns : this.#rollbackFns).push(entry);
+  }
+
+  /**
+   * The transaction committed. If nested, hand the callbacks
+   * to the parent. Otherwise run the commit callbacks in order,
+   * stopping at the first which fails.
+   */
+  async committed(ctx: IContext): Promise<void> {
+    const parent = this.#parent;
+    if (parent != null) {
+      merge(parent.#commitFns, this.#commitFns);
+      merge(parent.#rollbackFns, this.#rollbackFns);
+      this.#merged = true;
+      return;
+    }
+    this.#done = true;
+    for (const { fn } of this.#commitFns) {
+      await fn(ctx);
+    }
+  }
+
+  /**
+   * The transaction rolled back. Run the rollback callbacks
+   * in order, ignoring errors so they cannot hide the
+   * error that caused the rollback.
+   */
+  async rolledBack(ctx: IContext): Promise<void> {
+    this.#done = true;
+    for (const { fn } of this.#rollbackFns) {
+      try {
+        await fn(ctx);
+      } catch {
+        // Transaction already failed
+      }
+    }
+  }
+}
+
+function getCallbacks(ctx: IContext): TxnCallbacks {
+  const callbacks = TxnCallbacks.from(ctx);
+  if (callbacks == null) {
+    throw new TxnRequiredError();
+  }
+  return callbacks;
+}
+
+/**
+ * Register a callback to run after the current transaction
+ * commits. Works with a transaction started by any runner,
+ * including when joined by a nested callback, in which case
+ * the callback runs after the outermost transaction commits.
+ * Callbacks run in the order they were registered. If one fails,
+ * the remaining callbacks are skipped and the runner rejects
+ * with the error, even though the transaction was committed.
+ */
+export function afterCommit(ctx: IContext, fn: CtxCallback): void {
+  getCallbacks(ctx).add(true, fn);
+}
+
+/**
+ * Register a callback to run after the current transaction
+ * rolls back. Callbacks run in the order they were registered.
+ * Errors thrown by the callbacks are ignored.
+ */
+export function afterRollback(ctx: IContext, fn: CtxCallback): void {
+  getCallbacks(ctx).add(false, fn);
+}
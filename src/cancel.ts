@@ -0,0 +1,40 @@
+// Copyright 2022 Joshua Honig. All rights reserved.
+// Use of this source code is governed by a MIT
+// license that can be found in the LICENSE file.
+
+import { Context, IContext, withCancel } from '@sabl/context';
+
+/** Thrown by the runner when the context is canceled */
+export const canceled = Symbol('canceled');
+
+/** A child context which is canceled after a timeout */
+export interface TimeoutContext {
+  readonly ctx: Context;
+
+  /** True if the context was canceled by the timeout */
+  readonly timedOut: boolean;
+
+  /** Clear the timer and release the child context */
+  dispose(): void;
+}
+
+/** Derive a child context which is canceled after `ms` milliseconds */
+export function withTimeout(ctx: IContext, ms: number): TimeoutContext {
+  const [child, cancel] = withCancel(ctx);
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    cancel();
+  }, ms);
+
+  return {
+    ctx: child,
+    get timedOut() {
+      return timedOut;
+    },
+    dispose() {
+      clearTimeout(timer);
+      cancel();
+    },
+  };
+}
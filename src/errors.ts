@@ -0,0 +1,321 @@
+// Copyright 2022 Joshua Honig. All rights reserved.
+// Use of this source code is governed by a MIT
+// license that can be found in the LICENSE file.
+
+import { IsolationLevel, TxnOptions } from './types';
+
+/** The step of a transaction's lifecycle in which a failure occurred */
+export type TxnPhase = 'begin' | 'callback' | 'prepare' | 'commit' | 'rollback';
+
+/**
+ * Base class for all errors raised by this library.
+ * Each subclass has a stable `code` which callers
+ * can match on instead of the message text.
+ */
+export abstract class TxnError extends Error {
+  /** A stable identifier for the kind of error */
+  abstract readonly code: string;
+
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * A transaction run by a {@link TxnRunner} failed. The original
+ * error is available as `cause`, even if it is not an `Error`.
+ * If rolling back the failed transaction also failed, that error
+ * is available as `rollbackError`.
+ */
+export class TxnFailedError extends TxnError {
+  readonly code = 'TXN_FAILED';
+
+  /** The step in which the transaction failed */
+  readonly phase: TxnPhase;
+
+  /** The error thrown by rollback(), if rollback also failed */
+  readonly rollbackError?: unknown;
+
+  /** The options the transaction was started with */
+  readonly opts?: TxnOptions;
+
+  constructor(
+    phase: TxnPhase,
+    cause: unknown,
+    opts?: TxnOptions,
+    rollbackError?: unknown
+  ) {
+    let msg = 'Transaction failed';
+    if (cause != null) {
+      msg += ': ' + String(cause);
+    }
+    if (rollbackError !== undefined) {
+      msg += '; rollback also failed: ' + String(rollbackError);
+    }
+
+    // Preserve the cause as-is, even if it is not an Error
+    super(msg, { cause: <Error>cause });
+    this.phase = phase;
+    this.rollbackError = rollbackError;
+    this.opts = opts;
+  }
+}
+
+/**
+ * No transaction accessor was registered on the context,
+ * or no accessor with the requested name was provided
+ */
+export class NoTxnAccessorError extends TxnError {
+  readonly code = 'TXN_NO_ACCESSOR';
+
+  constructor(name?: string | symbol) {
+    super(
+      name == null
+        ? 'No transaction accessors defined on context'
+        : `No transaction accessor named '${String(name)}'`
+    );
+  }
+}
+
+/** No {@link Transactable} was found on the context */
+export class NoTransactableError extends TxnError {
+  readonly code = 'TXN_NO_TRANSACTABLE';
+
+  constructor() {
+    super('No transactable source present on context');
+  }
+}
+
+/** No callback was provided to run in the transaction */
+export class MissingCallbackError extends TxnError {
+  readonly code = 'TXN_MISSING_CALLBACK';
+
+  constructor() {
+    super('Missing callback function');
+  }
+}
+
+/**
+ * A new transaction was requested while another was open
+ * on the context, and the open transaction does not
+ * support nested transactions.
+ */
+export class NestedTxnUnsupportedError extends TxnError {
+  readonly code = 'TXN_NESTED_UNSUPPORTED';
+
+  constructor() {
+    super(
+      'There is already an open transaction, and it does not support nested transactions'
+    );
+  }
+}
+
+/**
+ * A callback was run with {@link Propagation.mandatory},
+ * but there was no transaction on the context.
+ */
+export class TxnRequiredError extends TxnError {
+  readonly code = 'TXN_REQUIRED';
+
+  constructor() {
+    super('No transaction present on context, but one is required');
+  }
+}
+
+/**
+ * A callback was run with {@link Propagation.never},
+ * but there was already a transaction on the context.
+ */
+export class TxnNotAllowedError extends TxnError {
+  readonly code = 'TXN_NOT_ALLOWED';
+
+  constructor() {
+    super('There is already an open transaction, but none is allowed');
+  }
+}
+
+/**
+ * A callback joined an existing transaction, but requested options
+ * which are incompatible with those the transaction was opened with.
+ */
+export class IncompatibleTxnError extends TxnError {
+  readonly code = 'TXN_INCOMPATIBLE';
+
+  /** The options requested by the joining callback */
+  readonly requested: TxnOptions;
+
+  /** The options the existing transaction was opened with */
+  readonly existing: TxnOptions;
+
+  constructor(requested: TxnOptions, existing: TxnOptions) {
+    super(
+      'Requested transaction options are incompatible with the existing transaction'
+    );
+    this.requested = requested;
+    this.existing = existing;
+  }
+}
+
+/**
+ * The requested isolation level is not supported by the
+ * transactable, and could not be adjusted by the runner's
+ * `isolationPolicy`
+ */
+export class IsolationUnsupportedError extends TxnError {
+  readonly code = 'TXN_ISOLATION_UNSUPPORTED';
+
+  /** The requested isolation level */
+  readonly requested: IsolationLevel;
+
+  /** The isolation levels supported by the transactable */
+  readonly supported: readonly IsolationLevel[];
+
+  constructor(requested: IsolationLevel, supported: readonly IsolationLevel[]) {
+    super(`Isolation level ${IsolationLevel[requested]} is not supported`);
+    this.requested = requested;
+    this.supported = supported;
+  }
+}
+
+/** A transaction was used after it was committed or rolled back */
+export class TxnCompletedError extends TxnError {
+  readonly code = 'TXN_COMPLETED';
+
+  constructor(message: string) {
+    super(message);
+  }
+}
+
+/**
+ * A change set was modified, committed or rolled back from within
+ * one of its own callbacks, while it was committing or rolling back
+ */
+export class TxnInProgressError extends TxnError {
+  readonly code = 'TXN_IN_PROGRESS';
+
+  constructor() {
+    super(
+      'Change set is committing or rolling back, and cannot be modified by its own callbacks'
+    );
+  }
+}
+
+/**
+ * One or more callbacks run while rolling back a change set
+ * failed. All callbacks were still run. The errors are
+ * available in `errors`, in the order they were thrown.
+ */
+export class RollbackFailedError extends TxnError {
+  readonly code = 'TXN_ROLLBACK_FAILED';
+
+  /** The errors thrown by the failed callbacks */
+  readonly errors: readonly unknown[];
+
+  constructor(errors: unknown[]) {
+    super('Rollback failed: ' + errors.map((e) => String(e)).join('; '));
+    this.errors = errors;
+  }
+}
+
+/**
+ * A two-phase commit was decided to commit, but not every
+ * participant confirmed the commit. The decision is still in
+ * the decision log, and the transaction is completed by the
+ * coordinator's `recover()`. The errors from the participants
+ * are available in `errors`.
+ */
+export class TxnInDoubtError extends TxnError {
+  readonly code = 'TXN_IN_DOUBT';
+
+  /** The global id of the transaction */
+  readonly id: string;
+
+  /** The errors thrown by the participants which failed to commit */
+  readonly errors: readonly unknown[];
+
+  constructor(id: string, errors: unknown[]) {
+    super(
+      `Transaction ${id} was committed, but not all participants confirmed: ` +
+        errors.map((e) => String(e)).join('; ')
+    );
+    this.id = id;
+    this.errors = errors;
+  }
+}
+
+/**
+ * A method which modifies data was called on a transaction
+ * started with `readOnly: true`
+ */
+export class TxnReadOnlyError extends TxnError {
+  readonly code = 'TXN_READ_ONLY';
+
+  /** The name of the method which was called */
+  readonly method: string;
+
+  constructor(method: string) {
+    super(`Cannot call ${method} in a read-only transaction`);
+    this.method = method;
+  }
+}
+
+/** A run has an `idempotencyKey`, but the runner has no `idempotencyStore` */
+export class NoIdempotencyStoreError extends TxnError {
+  readonly code = 'TXN_NO_IDEMPOTENCY_STORE';
+
+  constructor() {
+    super('An idempotency key was provided, but no idempotency store');
+  }
+}
+
+/**
+ * A result was already saved for an idempotency key, possibly by
+ * a concurrent run which has not yet committed. Retrying the run
+ * returns the saved result once the other run commits.
+ */
+export class IdempotencyConflictError extends TxnError {
+  readonly code = 'TXN_IDEMPOTENCY_CONFLICT';
+
+  /** The idempotency key */
+  readonly key: string;
+
+  constructor(key: string) {
+    super(`A result is already saved for idempotency key '${key}'`);
+    this.key = key;
+  }
+}
+
+/**
+ * The context was canceled, or the run timed out, before the
+ * transaction could be committed. The transaction was rolled
+ * back. If the callback rejected after cancellation, that error
+ * is available as `cause`. If rolling back also failed, that
+ * error is available as `rollbackError`.
+ */
+export class TxnCanceledError extends TxnError {
+  readonly code: 'TXN_CANCELED' | 'TXN_TIMEOUT';
+
+  /** The step in which cancellation was detected */
+  readonly phase: TxnPhase;
+
+  /** The error thrown by rollback(), if rollback also failed */
+  readonly rollbackError?: unknown;
+
+  constructor(
+    phase: TxnPhase,
+    timedOut: boolean,
+    cause?: unknown,
+    rollbackError?: unknown
+  ) {
+    let msg = timedOut ? 'Transaction timed out' : 'Transaction canceled';
+    if (rollbackError !== undefined) {
+      msg += '; rollback also failed: ' + String(rollbackError);
+    }
+
+    super(msg, { cause: <Error>cause });
+    this.code = timedOut ? 'TXN_TIMEOUT' : 'TXN_CANCELED';
+    this.phase = phase;
+    this.rollbackError = rollbackError;
+  }
+}
@@ -0,0 +1,39 @@
+// Copyright 2022 Joshua Honig. All rights reserved.
+// Use of this source code is governed by a MIT
+// license that can be found in the LICENSE file.
+
+import { TxnHookEvent, TxnHooks } from './types';
+
+type HookName = keyof TxnHooks;
+
+/** Call the named hook of each set of hooks, in order */
+export async function callHooks(
+  hooks: readonly TxnHooks[],
+  name: HookName,
+  evt: TxnHookEvent
+): Promise<void> {
+  for (const h of hooks) {
+    const fn = h[name];
+    if (fn != null) {
+      await fn.call(h, evt);
+    }
+  }
+}
+
+/**
+ * Call the named hook of each set of hooks, in order,
+ * ignoring any errors thrown by the hooks
+ */
+export async function notifyHooks(
+  hooks: readonly TxnHooks[],
+  name: HookName,
+  evt: TxnHookEvent
+): Promise<void> {
+  for (const h of hooks) {
+    try {
+      await h[name]?.call(h, evt);
+    } catch {
+      // Outcome is already decided
+    }
+  }
+}
@@ -0,0 +1,177 @@
+// Copyright 2022 Joshua Honig. All rights reserved.
+// Use of this source code is governed by a MIT
+// license that can be found in the LICENSE file.
+
+import { IContext, Maybe } from '@sabl/context';
+import { afterCommit, afterRollback } from './callbacks';
+import { IdempotencyConflictError, NoIdempotencyStoreError } from './errors';
+import {
+  IdempotencyContractCase,
+  IdempotencyRecord,
+  IdempotencyStore,
+  IdempotencyStoreHarness,
+  Txn,
+  TxnCallback,
+} from './types';
+
+/**
+ * Wrap a callback so that it is skipped if `key` was saved
+ * by a committed run, and so that its result is saved in
+ * the same transaction otherwise
+ */
+export function withIdempotency<T extends Txn, R>(
+  fn: TxnCallback<T, R>,
+  key: string,
+  store: Maybe<IdempotencyStore>
+): TxnCallback<T, R> {
+  if (store == null) {
+    throw new NoIdempotencyStoreError();
+  }
+
+  return async (ctx: IContext, txn: T): Promise<R> => {
+    const saved = await store.get(ctx, txn, key);
+    if (saved != null) {
+      return <R>saved.result;
+    }
+
+    const result = await fn(ctx, txn);
+    await store.put(ctx, txn, key, result);
+    return result;
+  };
+}
+
+class MemIdempotencyStore implements IdempotencyStore {
+  readonly #committed = new Map<string, IdempotencyRecord>();
+  readonly #pending = new Set<string>();
+
+  get(ctx: IContext, txn: Txn, key: string): Promise<Maybe<IdempotencyRecord>> {
+    return Promise.resolve(this.#committed.get(key) || null);
+  }
+
+  put(ctx: IContext, txn: Txn, key: string, result: unknown): Promise<void> {
+    // Like a unique constraint, also conflict
+    // with keys saved by uncommitted transactions
+    if (this.#committed.has(key) || this.#pending.has(key)) {
+      return Promise.reject(new IdempotencyConflictError(key));
+    }
+
+    this.#pending.add(key);
+    afterCommit(ctx, () => {
+      this.#pending.delete(key);
+      this.#committed.set(key, { result });
+    });
+    afterRollback(ctx, () => {
+      this.#pending.delete(key);
+    });
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Create an in-memory {@link IdempotencyStore} for tests. Like a
+ * unique constraint, a key put by an uncommitted transaction also
+ * conflicts until that transaction rolls back. Uses {@link afterCommit},
+ * so it supports transactions started by `txn`, `changeSet` and the
+ * `deferTxn` callbacks of change sets, but not `twoPhase`.
+ */
+export function memIdempotencyStore(): IdempotencyStore {
+  return new MemIdempotencyStore();
+}
+
+function check(ok: boolean, msg: string): void {
+  if (!ok) {
+    throw new Error(msg);
+  }
+}
+
+/**
+ * The behavior required of every {@link IdempotencyStore}, as a list
+ * of cases which can be run with any test framework:
+ *
+ * ```ts
+ * for (const c of idempotencyStoreContract(setup)) {
+ *   it(c.name, () => c.run());
+ * }
+ * ```
+ *
+ * `setup` is called once for each case, and should provide
+ * a store with no saved keys.
+ */
+export function idempotencyStoreContract<T extends Txn>(
+  setup: () => Promise<IdempotencyStoreHarness<T>> | IdempotencyStoreHarness<T>
+): IdempotencyContractCase[] {
+  const cases: [string, (h: IdempotencyStoreHarness<T>) => Promise<void>][] = [
+    [
+      'finds nothing for an unknown key',
+      async ({ ctx, store, runner }) => {
+        await runner.run(ctx, async (ctx, txn) => {
+          const saved = await store.get(ctx, txn, 'unknown');
+          check(saved == null, 'Expected no record for an unknown key');
+        });
+      },
+    ],
+    [
+      'returns the committed result',
+      async ({ ctx, runner }) => {
+        const result = { id: 42, tags: ['a', 'b'] };
+        let calls = 0;
+        const op = () => {
+          calls++;
+          return result;
+        };
+
+        await runner.run(ctx, { idempotencyKey: 'k1' }, op);
+        const second = await runner.run(ctx, { idempotencyKey: 'k1' }, op);
+
+        check(calls === 1, `Expected 1 call, but got ${calls}`);
+        check(
+          JSON.stringify(second) === JSON.stringify(result),
+          `Expected saved result, but got ${JSON.stringify(second)}`
+        );
+      },
+    ],
+    [
+      'does not save the key if the transaction rolls back',
+      async ({ ctx, runner }) => {
+        // Fails after the key is saved
+        let calls = 0;
+        await runner
+          .run(ctx, async (ctx) => {
+            await runner.in(ctx, { idempotencyKey: 'k1' }, () => calls++);
+            throw new Error('Failing on purpose');
+          })
+          .catch(() => undefined);
+
+        await runner.run(ctx, { idempotencyKey: 'k1' }, () => calls++);
+        check(calls === 2, `Expected 2 calls, but got ${calls}`);
+      },
+    ],
+    [
+      'keeps keys independent',
+      async ({ ctx, runner }) => {
+        await runner.run(ctx, { idempotencyKey: 'k1' }, () => 'a');
+        const b = await runner.run(ctx, { idempotencyKey: 'k2' }, () => 'b');
+        check(b === 'b', `Expected 'b', but got ${JSON.stringify(b)}`);
+      },
+    ],
+    [
+      'rejects saving a key twice',
+      async ({ ctx, store, runner }) => {
+        await runner.run(ctx, { idempotencyKey: 'k1' }, () => 'a');
+
+        let rejected = false;
+        await runner
+          .run(ctx, (ctx, txn) => store.put(ctx, txn, 'k1', 'b'))
+          .catch(() => (rejected = true));
+        check(rejected, 'Expected put to reject for a saved key');
+      },
+    ],
+  ];
+
+  return cases.map(([name, fn]) => ({
+    name,
+    async run() {
+      await fn(await setup());
+    },
+  }));
+}
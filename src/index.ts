@@ -21,12 +21,131 @@ import {
   TxnOptions,
   TxnRunner,
   IsolationLevel,
+  IsolationPolicy,
+  IsolationDowngradeHandler,
+  RetryPolicy,
+  TxnRunOptions,
+  SavepointTxn,
+  Propagation,
+  TxnOptionalRunOptions,
+  TxnRunnerConfig,
+  IncompatibleJoinHandler,
+  TxnHooks,
+  TxnHookEvent,
+  RollbackOrder,
+  ChangeSetConfig,
+  ChangeSetState,
+  ChangeSetEntry,
+  ChangeSetEntryKind,
+  TxnAccessors,
+  MultiTxnChangeSet,
+  PreparableTxn,
+  PreparableTransactable,
+  PreparableTxnAccessor,
+  PreparableTxnAccessors,
+  TwoPhaseDecision,
+  TwoPhaseRecord,
+  DecisionLog,
+  TwoPhaseCoordinator,
+  OutboxMessageInit,
+  OutboxMessage,
+  OutboxStore,
+  OutboxDispatch,
+  OutboxRelayOptions,
+  OutboxRelay,
+  IdempotencyRecord,
+  IdempotencyStore,
+  IdempotencyStoreHarness,
+  IdempotencyContractCase,
+  TxnBag,
+  TxnAccessorName,
+  ConnTxnAccessor,
 } from './types';
+import {
+  IncompatibleTxnError,
+  MissingCallbackError,
+  NestedTxnUnsupportedError,
+  NoTransactableError,
+  NoTxnAccessorError,
+  RollbackFailedError,
+  TxnCanceledError,
+  TxnCompletedError,
+  TxnError,
+  TxnFailedError,
+  TxnInDoubtError,
+  TxnInProgressError,
+  TxnNotAllowedError,
+  TxnPhase,
+  TxnRequiredError,
+  NoIdempotencyStoreError,
+  IdempotencyConflictError,
+  TxnReadOnlyError,
+  IsolationUnsupportedError,
+} from './errors';
+import { canceled, TimeoutContext, withTimeout } from './cancel';
+import { retryDelay, waitRetry } from './retry';
+import { callHooks, notifyHooks } from './hooks';
+import { afterCommit, afterRollback, TxnCallbacks } from './callbacks';
+import { runParallel } from './parallel';
+import { txnBag, TxnBagImpl } from './bag';
+import { createTxnAccessor } from './accessor';
+import {
+  changeSetMutating,
+  guardReadOnly,
+  txnChangeSetMutating,
+} from './read-only';
+import { compareIsolation, negotiateIsolation } from './isolation';
+import { memDecisionLog, twoPhase } from './two-phase';
+import { deferOutbox, memOutboxStore, outboxRelay } from './outbox';
+import {
+  idempotencyStoreContract,
+  memIdempotencyStore,
+  withIdempotency,
+} from './idempotency';
 
 export {
   IsolationLevel,
+  IsolationPolicy,
+  IsolationDowngradeHandler,
   TxnOptions,
+  RetryPolicy,
+  TxnRunOptions,
+  TxnOptionalRunOptions,
+  Propagation,
+  TxnRunnerConfig,
+  IncompatibleJoinHandler,
+  TxnHooks,
+  TxnHookEvent,
+  RollbackOrder,
+  ChangeSetConfig,
+  ChangeSetState,
+  ChangeSetEntry,
+  ChangeSetEntryKind,
+  TxnAccessors,
+  MultiTxnChangeSet,
+  PreparableTxn,
+  PreparableTransactable,
+  PreparableTxnAccessor,
+  PreparableTxnAccessors,
+  TwoPhaseDecision,
+  TwoPhaseRecord,
+  DecisionLog,
+  TwoPhaseCoordinator,
+  OutboxMessageInit,
+  OutboxMessage,
+  OutboxStore,
+  OutboxDispatch,
+  OutboxRelayOptions,
+  OutboxRelay,
+  IdempotencyRecord,
+  IdempotencyStore,
+  IdempotencyStoreHarness,
+  IdempotencyContractCase,
+  TxnBag,
+  TxnAccessorName,
+  ConnTxnAccessor,
   Txn,
+  SavepointTxn,
   Transactable,
   CtxCallback,
   TxnCallback,
@@ -34,38 +153,131 @@ export {
   TxnRunner,
   ChangeSet,
   TxnChangeSet,
+  TxnPhase,
+  TxnError,
+  TxnFailedError,
+  NoTxnAccessorError,
+  NoTransactableError,
+  MissingCallbackError,
+  NestedTxnUnsupportedError,
+  TxnCompletedError,
+  TxnCanceledError,
+  TxnRequiredError,
+  TxnNotAllowedError,
+  IncompatibleTxnError,
+  IsolationUnsupportedError,
+  RollbackFailedError,
+  TxnInProgressError,
+  TxnInDoubtError,
+  NoIdempotencyStoreError,
+  IdempotencyConflictError,
+  TxnReadOnlyError,
+  afterCommit,
+  afterRollback,
+  compareIsolation,
+  createTxnAccessor,
+  txnBag,
+  twoPhase,
+  memDecisionLog,
+  deferOutbox,
+  outboxRelay,
+  memOutboxStore,
+  memIdempotencyStore,
+  idempotencyStoreContract,
 };
 
 const ctxKeyAccessor = Symbol('TransactionAccessor');
+const ctxKeyNamedAccessors = Symbol('NamedTransactionAccessors');
+
+type NamedAccessors = ReadonlyMap<TxnAccessorName, TxnAccessor<Txn>>;
 
 /**
- * Set the transaction accessors on the context, so
- * other locations can use transactions
+ * Set the default transaction accessors on the context,
+ * so other locations can use transactions
  * with {@link txn} or {@link txnChangeSet} without
- * needing to know the underlying transaction type
+ * needing to know the underlying transaction type.
+ *
+ * If a name or token is provided, register the accessors
+ * under that name instead, for use with `txn(ctx, name)` or
+ * `txnChangeSet(ctx, name)`. This does not affect the default
+ * accessors or those registered under other names.
  */
 export function withTxnAccessor<T extends Txn>(
   ctx: IContext,
-  accessor: TxnAccessor<T>
+  ...args:
+    | [accessor: TxnAccessor<T>]
+    | [name: TxnAccessorName, accessor: TxnAccessor<T>]
 ): Context {
-  return withValue(ctx, ctxKeyAccessor, accessor);
+  if (args.length === 1) {
+    return withValue(ctx, ctxKeyAccessor, args[0]);
+  }
+
+  // Copy so that parent contexts are not affected
+  const [name, accessor] = args;
+  const named = new Map(getNamedAccessors(ctx));
+  named.set(name, <TxnAccessor<Txn>>(<unknown>accessor));
+  return withValue(ctx, ctxKeyNamedAccessors, named);
+}
+
+function getNamedAccessors(ctx: IContext): NamedAccessors {
+  return <Maybe<NamedAccessors>>ctx.value(ctxKeyNamedAccessors) || new Map();
 }
 
-/** Get the transaction accessor from the context */
-export function getTxnAccessor(ctx: IContext): Maybe<TxnAccessor<Txn>> {
+/**
+ * Get the default transaction accessor from the context,
+ * or the accessor registered under `name` if provided
+ */
+export function getTxnAccessor(
+  ctx: IContext,
+  name?: TxnAccessorName
+): Maybe<TxnAccessor<Txn>> {
+  if (name != null) {
+    return getNamedAccessors(ctx).get(name);
+  }
   return <Maybe<TxnAccessor<Txn>>>ctx.value(ctxKeyAccessor);
 }
 
-const csBuilder: Transactable<ChangeSet> = {
-  beginTxn(ctx: IContext) {
-    return Promise.resolve(new ChangeSetImpl(ctx));
-  },
-};
+/** Get a registered accessor, or throw `NoTxnAccessorError` */
+function requireTxnAccessor(
+  ctx: IContext,
+  name?: TxnAccessorName
+): TxnAccessor<Txn> {
+  const accessor = getTxnAccessor(ctx, name);
+  if (accessor == null) {
+    throw new NoTxnAccessorError(name);
+  }
+  return accessor;
+}
+
+const ctxKeyHooks = Symbol('TransactionHooks');
+
+/**
+ * Register transaction hooks on the context. Every runner
+ * called with the context or its descendants invokes the
+ * hooks for each transaction it starts, after any hooks
+ * registered with the runner itself. Hooks already on the
+ * context are retained, and called first.
+ */
+export function withTxnHooks(ctx: IContext, hooks: TxnHooks): Context {
+  return withValue(ctx, ctxKeyHooks, getTxnHooks(ctx).concat(hooks));
+}
+
+/** Get the transaction hooks registered on the context */
+export function getTxnHooks(ctx: IContext): readonly TxnHooks[] {
+  return <Maybe<TxnHooks[]>>ctx.value(ctxKeyHooks) || [];
+}
 
 const ctxKeyChangeSet = Symbol('ChangeSet');
 
-function getCsBuilder(): Maybe<Transactable<ChangeSet>> {
-  return csBuilder;
+function makeCsBuilder(
+  config: ChangeSetConfig
+): ContextGetter<Transactable<ChangeSet>> {
+  const csBuilder: Transactable<ChangeSet> = {
+    beginTxn(ctx: IContext) {
+      return Promise.resolve(new ChangeSetImpl(ctx, config));
+    },
+  };
+  return () => csBuilder;
 }
 
 function getChangeSet(ctx: IContext): Maybe<ChangeSet> {
@@ -79,14 +291,18 @@ function withChangeSet(ctx: IContext, cs: ChangeSet): Context {
 const ctxKeyTxnChangeSet = Symbol('TxnChangeSet');
 
 function makeTxnCsAccessor<T extends Txn>(
-  accessor: TxnAccessor<T>
+  accessor: TxnAccessor<T>,
+  config: ChangeSetConfig | undefined
 ): TxnAccessor<TxnChangeSet<T>> {
   return {
     getTransactable(): Maybe<Transactable<TxnChangeSet<T>>> {
       return {
         beginTxn(ctx: IContext) {
-          const runner = txn(accessor);
-          return Promise.resolve(new TxnChangeSetImpl(ctx, runner));
+          // Hooks are called once, for the change set
+          const runner = new TxnRunnerImpl(accessor, config, [], false);
+          return Promise.resolve(
+            new TxnChangeSetImpl(ctx, runner, config || {})
+          );
         },
       };
     },
@@ -105,7 +321,18 @@ function makeTxnCsAccessor<T extends Txn>(
  * were themselves already added to the context
  * with {@link withTxnAccessor}.
  */
-export function txn(ctx: IContext): TxnRunner<Txn>;
+export function txn(ctx: IContext, config?: TxnRunnerConfig): TxnRunner<Txn>;
+
+/**
+ * Create a generic transaction runner using the
+ * context getters and setters registered on the
+ * context under `name` with {@link withTxnAccessor}.
+ */
+export function txn(
+  ctx: IContext,
+  name: TxnAccessorName,
+  config?: TxnRunnerConfig
+): TxnRunner<Txn>;
 
 /**
  * Create a transaction runner for a particular
@@ -114,31 +341,48 @@ export function txn(ctx: IContext): TxnRunner<Txn>;
  * for an interface that can start the transaction,
  * and a context setter for the transaction type.
  */
-export function txn<T extends Txn>(accessor: TxnAccessor<T>): TxnRunner<T>;
+export function txn<T extends Txn>(
+  accessor: TxnAccessor<T>,
+  config?: TxnRunnerConfig
+): TxnRunner<T>;
 
 export function txn<T extends Txn>(
-  ctxOrAccessor: IContext | TxnAccessor<T>
+  ctxOrAccessor: IContext | TxnAccessor<T>,
+  nameOrConfig?: TxnAccessorName | TxnRunnerConfig,
+  maybeConfig?: TxnRunnerConfig
 ): TxnRunner<T> | TxnRunner<Txn> {
   if ('getTxn' in ctxOrAccessor) {
-    return new TxnRunnerImpl<T>(ctxOrAccessor);
+    return new TxnRunnerImpl<T>(
+      ctxOrAccessor,
+      <TxnRunnerConfig | undefined>nameOrConfig
+    );
   }
 
-  const baseAccessor = getTxnAccessor(ctxOrAccessor);
-  if (baseAccessor == null) {
-    throw new Error('No transaction accessors defined on context');
+  if (typeof nameOrConfig === 'object') {
+    return new TxnRunnerImpl<Txn>(
+      requireTxnAccessor(ctxOrAccessor),
+      nameOrConfig
+    );
   }
-  return new TxnRunnerImpl<Txn>(baseAccessor);
+  return new TxnRunnerImpl<Txn>(
+    requireTxnAccessor(ctxOrAccessor, nameOrConfig),
+    maybeConfig
+  );
 }
 
 /**
  * Create a change set runner.
  */
-export function changeSet(): TxnRunner<ChangeSet> {
-  return new TxnRunnerImpl({
-    getTransactable: getCsBuilder,
-    getTxn: getChangeSet,
-    withTxn: withChangeSet,
-  });
+export function changeSet(config?: ChangeSetConfig): TxnRunner<ChangeSet> {
+  return new TxnRunnerImpl(
+    {
+      getTransactable: makeCsBuilder(config || {}),
+      getTxn: getChangeSet,
+      withTxn: withChangeSet,
+    },
+    config,
+    changeSetMutating
+  );
 }
 
 /**
@@ -147,7 +391,21 @@ export function changeSet(): TxnRunner<ChangeSet> {
  * were themselves already added to the context
  * with {@link withTxnAccessor}.
  */
-export function txnChangeSet(ctx: IContext): TxnRunner<TxnChangeSet<Txn>>;
+export function txnChangeSet(
+  ctx: IContext,
+  config?: ChangeSetConfig
+): TxnRunner<TxnChangeSet<Txn>>;
+
+/**
+ * Create a generic transaction change set runner
+ * using the context getters and setters registered on
+ * the context under `name` with {@link withTxnAccessor}.
+ */
+export function txnChangeSet(
+  ctx: IContext,
+  name: TxnAccessorName,
+  config?: ChangeSetConfig
+): TxnRunner<TxnChangeSet<Txn>>;
 
 /**
  * Create a {@link TxnChangeSet} runner for a particular
@@ -157,21 +415,73 @@ export function txnChangeSet(ctx: IContext): TxnRunner<TxnChangeSet<Txn>>;
  * and a context setter for the transaction type.
  */
 export function txnChangeSet<T extends Txn>(
-  accessor: TxnAccessor<T>
+  accessor: TxnAccessor<T>,
+  config?: ChangeSetConfig
 ): TxnRunner<TxnChangeSet<T>>;
 
 export function txnChangeSet<T extends Txn>(
-  ctxOrAccessor: IContext | TxnAccessor<T>
+  ctxOrAccessor: IContext | TxnAccessor<T>,
+  nameOrConfig?: TxnAccessorName | ChangeSetConfig,
+  maybeConfig?: ChangeSetConfig
 ): TxnRunner<TxnChangeSet<T>> | TxnRunner<TxnChangeSet<Txn>> {
   if ('getTxn' in ctxOrAccessor) {
-    return new TxnRunnerImpl(makeTxnCsAccessor(ctxOrAccessor));
+    const config = <ChangeSetConfig | undefined>nameOrConfig;
+    return new TxnRunnerImpl(
+      makeTxnCsAccessor(ctxOrAccessor, config),
+      config,
+      txnChangeSetMutating
+    );
   }
 
-  const baseAccessor = getTxnAccessor(ctxOrAccessor);
-  if (baseAccessor == null) {
-    throw new Error('No transaction accessors defined on context');
+  let config: ChangeSetConfig | undefined;
+  let accessor: TxnAccessor<Txn>;
+  if (typeof nameOrConfig === 'object') {
+    config = nameOrConfig;
+    accessor = requireTxnAccessor(ctxOrAccessor);
+  } else {
+    config = maybeConfig;
+    accessor = requireTxnAccessor(ctxOrAccessor, nameOrConfig);
   }
-  return new TxnRunnerImpl(makeTxnCsAccessor(baseAccessor));
+  return new TxnRunnerImpl(
+    makeTxnCsAccessor(accessor, config),
+    config,
+    txnChangeSetMutating
+  );
+}
+
+const ctxKeyMultiTxnChangeSet = Symbol('MultiTxnChangeSet');
+
+/**
+ * Create a {@link MultiTxnChangeSet} runner for several named
+ * transaction types, each with its own context accessor.
+ * Transactions are opened and committed in the order
+ * of the keys of `accessors`.
+ */
+export function multiTxnChangeSet<M extends { [K in keyof M]: Txn }>(
+  accessors: TxnAccessors<M>,
+  config?: ChangeSetConfig
+): TxnRunner<MultiTxnChangeSet<M>> {
+  const csConfig = config || {};
+  const csBuilder: Transactable<MultiTxnChangeSet<M>> = {
+    beginTxn(ctx: IContext) {
+      return Promise.resolve(
+        new MultiTxnChangeSetImpl(ctx, accessors, csConfig)
+      );
+    },
+  };
+  return new TxnRunnerImpl(
+    {
+      getTransactable: () => csBuilder,
+      getTxn(ctx: IContext): Maybe<MultiTxnChangeSet<M>> {
+        return <Maybe<MultiTxnChangeSet<M>>>ctx.value(ctxKeyMultiTxnChangeSet);
+      },
+      withTxn(ctx: IContext, cs: MultiTxnChangeSet<M>): Context {
+        return withValue(ctx, ctxKeyMultiTxnChangeSet, cs);
+      },
+    },
+    config,
+    txnChangeSetMutating
+  );
 }
 
 function isTransactable<T extends Txn>(
@@ -183,181 +493,640 @@ function isTransactable<T extends Txn>(
   return false;
 }
 
+function isSavepointTxn<T extends Txn>(x: T): x is T & SavepointTxn {
+  if ('savepoint' in x && 'rollbackTo' in x && 'release' in x) {
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Begins a unit of work. Resolves to the transaction to provide
+ * to the callback, and the scope to commit or rollback.
+ */
+type TxnBegin<T extends Txn> = (
+  ctx: IContext,
+  opts?: TxnOptions
+) => Promise<[T, Txn]>;
+
+function beginFrom<T extends Txn>(src: Transactable<T>): TxnBegin<T> {
+  return async (ctx, opts) => {
+    const txn = await src.beginTxn(ctx, opts);
+    return [txn, txn];
+  };
+}
+
+let savepointSeq = 0;
+
+function beginSavepoint<T extends Txn>(txn: T & SavepointTxn): TxnBegin<T> {
+  return async () => {
+    const name = `sabl_sp_${++savepointSeq}`;
+    await txn.savepoint(name);
+    return [
+      txn,
+      {
+        commit: () => txn.release(name),
+        rollback: () => txn.rollbackTo(name),
+      },
+    ];
+  };
+}
+
+/** The options each transaction started by a runner was opened with */
+const txnOptions = new WeakMap<Txn, TxnOptions>();
+
+/**
+ * Get the options a transaction was opened with, if
+ * it was started by a runner from this library.
+ */
+export function getTxnOptions(txn: Txn): Maybe<TxnOptions> {
+  return txnOptions.get(txn);
+}
+
+/**
+ * Check whether a callback requesting `requested` can safely
+ * join a transaction opened with `existing`.
+ */
+function isCompatible(requested: TxnOptions, existing: TxnOptions): boolean {
+  if (requested.readOnly === false && existing.readOnly === true) {
+    return false;
+  }
+  const reqLevel = requested.isolationLevel ?? IsolationLevel.default;
+  const existingLevel = existing.isolationLevel ?? IsolationLevel.default;
+  return compareIsolation(reqLevel, existingLevel) <= 0;
+}
+
 class TxnRunnerImpl<T extends Txn> implements TxnRunner<T> {
   readonly #getTransactable: ContextGetter<Transactable<T>>;
   readonly #getTxn: ContextGetter<T>;
   readonly #withTxn: ContextSetter<T>;
+  readonly #config: TxnRunnerConfig;
+  readonly #mutating: ReadonlySet<string | symbol>;
+  readonly #callHooks: boolean;
 
-  constructor(accessor: TxnAccessor<T>) {
+  constructor(
+    accessor: TxnAccessor<T>,
+    config?: TxnRunnerConfig,
+    mutating: readonly string[] = [],
+    callHooks = true
+  ) {
     this.#getTransactable = accessor.getTransactable;
     this.#getTxn = accessor.getTxn;
     this.#withTxn = accessor.withTxn;
+    this.#config = config || {};
+    this.#mutating = new Set([
+      ...mutating,
+      ...(this.#config.mutatingMethods || []),
+    ]);
+    this.#callHooks = callHooks;
+  }
+
+  run<R>(
+    ctx: IContext,
+    fn: (ctx: IContext, txn: T) => Promise<R> | R
+  ): Promise<R>;
+  run<R>(
+    ctx: IContext,
+    opts: TxnOptionalRunOptions,
+    fn: (ctx: IContext, txn: T | undefined) => Promise<R> | R
+  ): Promise<R>;
+  run<R>(
+    ctx: IContext,
+    opts: TxnRunOptions,
+    fn: (ctx: IContext, txn: T) => Promise<R> | R
+  ): Promise<R>;
+  run<R>(
+    ctx: IContext,
+    fnOrOpts: TxnRunOptions | TxnOptionalRunOptions | TxnCallback<T, R>,
+    maybeFn?: TxnCallback<T, R>
+  ): Promise<R> {
+    return this.#exec(ctx, fnOrOpts, maybeFn, Propagation.nested);
   }
 
-  run(
+  in<R>(
+    ctx: IContext,
+    fn: (ctx: IContext, txn: T) => Promise<R> | R
+  ): Promise<R>;
+  in<R>(
     ctx: IContext,
-    fn: (ctx: IContext, txn: T) => Promise<unknown> | unknown
-  ): Promise<void>;
-  run(
+    opts: TxnOptionalRunOptions,
+    fn: (ctx: IContext, txn: T | undefined) => Promise<R> | R
+  ): Promise<R>;
+  in<R>(
     ctx: IContext,
-    opts: TxnOptions,
-    fn: (ctx: IContext, txn: T) => Promise<unknown> | unknown
-  ): Promise<void>;
-  async run(
+    opts: TxnRunOptions,
+    fn: (ctx: IContext, txn: T) => Promise<R> | R
+  ): Promise<R>;
+  in<R>(
+    ctx: IContext,
+    fnOrOpts: TxnRunOptions | TxnOptionalRunOptions | TxnCallback<T, R>,
+    maybeFn?: TxnCallback<T, R>
+  ): Promise<R> {
+    return this.#exec(ctx, fnOrOpts, maybeFn, Propagation.required);
+  }
+
+  async #exec<R>(
     ctx: IContext,
-    fnOrOpts: TxnOptions | TxnCallback<T>,
-    maybeFn?: TxnCallback<T>
-  ): Promise<void> {
+    fnOrOpts: TxnRunOptions | TxnOptionalRunOptions | TxnCallback<T, R>,
+    maybeFn: TxnCallback<T, R> | undefined,
+    defaultPropagation: Propagation
+  ): Promise<R> {
     // Resolve the overloaded arguments
-    let fn: TxnCallback<T>;
-    let opts: TxnOptions | undefined;
+    let fn: TxnCallback<T, R>;
+    let opts: TxnRunOptions | undefined;
 
     if (typeof fnOrOpts === 'function') {
       fn = fnOrOpts;
       opts = undefined;
     } else {
-      fn = <TxnCallback<T>>maybeFn;
-      opts = fnOrOpts;
+      fn = <TxnCallback<T, R>>maybeFn;
+      // The option types differ only in propagation, resolved below
+      opts = <TxnRunOptions>fnOrOpts;
+    }
+
+    if (fn == null) {
+      throw new MissingCallbackError();
     }
 
+    const existingTxn = this.#getTxn(ctx);
+
+    switch (opts?.propagation ?? defaultPropagation) {
+      case Propagation.required:
+        if (existingTxn != null) {
+          // Already an existing transaction. Run the callback
+          // using provided context and existing transaction
+          return this.#join(ctx, fn, opts, existingTxn);
+        }
+        return this.#runNew(ctx, fn, opts, null);
+
+      case Propagation.requiresNew:
+        // Ignore any existing transaction, and begin
+        // a new one from the base transactable
+        return this.#runNew(ctx, fn, opts, null);
+
+      case Propagation.mandatory:
+        if (existingTxn == null) {
+          throw new TxnRequiredError();
+        }
+        return this.#join(ctx, fn, opts, existingTxn);
+
+      case Propagation.never:
+        if (existingTxn != null) {
+          throw new TxnNotAllowedError();
+        }
+        return await fn(ctx, <T>(<unknown>undefined));
+
+      case Propagation.supports:
+        if (existingTxn != null) {
+          return this.#join(ctx, fn, opts, existingTxn);
+        }
+        return await fn(ctx, <T>(<unknown>undefined));
+
+      default:
+        return this.#runNew(ctx, fn, opts, existingTxn);
+    }
+  }
+
+  /** Apply the idempotency key, if any, to a transactional callback */
+  #withKey<R>(
+    fn: TxnCallback<T, R>,
+    opts: TxnRunOptions | undefined
+  ): TxnCallback<T, R> {
+    if (opts?.idempotencyKey == null) {
+      return fn;
+    }
+    return withIdempotency(
+      fn,
+      opts.idempotencyKey,
+      this.#config.idempotencyStore
+    );
+  }
+
+  /** Run the callback in an existing transaction */
+  async #join<R>(
+    ctx: IContext,
+    fn: TxnCallback<T, R>,
+    opts: TxnRunOptions | undefined,
+    txn: T
+  ): Promise<R> {
+    fn = this.#withKey(fn, opts);
+    const existing = txnOptions.get(txn);
+    if (opts != null && existing != null && !isCompatible(opts, existing)) {
+      const onIncompatible = this.#config.onIncompatibleJoin;
+      if (onIncompatible == null) {
+        throw new IncompatibleTxnError(opts, existing);
+      }
+      onIncompatible(ctx, opts, existing);
+    }
+    if (opts?.readOnly === true && this.#mutating.size > 0) {
+      // The existing transaction may be read-write
+      txn = guardReadOnly(txn, this.#mutating);
+      if (existing != null) {
+        txnOptions.set(txn, existing);
+      }
+      ctx = this.#withTxn(ctx, txn);
+    }
+    return await fn(ctx, txn);
+  }
+
+  /**
+   * Run the callback in a new transaction, nested
+   * within `existingTxn` if it is provided.
+   */
+  async #runNew<R>(
+    ctx: IContext,
+    fn: TxnCallback<T, R>,
+    opts: TxnRunOptions | undefined,
+    existingTxn: Maybe<T>
+  ): Promise<R> {
+    fn = this.#withKey(fn, opts);
+
     // Get the transactable from the context. Usually
     // a database pool or connection
-    let txnSrc = this.#getTransactable(ctx);
+    const txnSrc = this.#getTransactable(ctx);
     if (txnSrc == null) {
-      throw new Error('No transactable source present on context');
+      throw new NoTransactableError();
     }
 
-    if (fn == null) {
-      throw new Error('Missing callback function');
-    }
-
-    // Check for an existing transaction
-    const existingTxn = this.#getTxn(ctx);
+    let begin = beginFrom(txnSrc);
+    let source: Maybe<Transactable<T>> = txnSrc;
     if (existingTxn != null) {
       if (isTransactable(existingTxn)) {
         // Existing transaction supports nested transactions.
-        txnSrc = existingTxn;
+        begin = beginFrom(existingTxn);
+        source = existingTxn;
+      } else if (isSavepointTxn(existingTxn)) {
+        // Emulate a nested transaction with a savepoint
+        begin = beginSavepoint(existingTxn);
+        source = null;
       } else {
-        throw new Error(
-          'There is already an open transaction, and it does not support nested transactions'
-        );
+        throw new NestedTxnUnsupportedError();
       }
     }
 
-    const txn = await txnSrc.beginTxn(ctx, opts);
-    const txnContext = this.#withTxn(ctx, txn);
+    opts = negotiateIsolation(
+      ctx,
+      opts,
+      source?.supportedIsolationLevels,
+      this.#config
+    );
+
+    let timeout: TimeoutContext | undefined;
+    if (opts?.timeoutMs != null) {
+      timeout = withTimeout(ctx, opts.timeoutMs);
+      ctx = timeout.ctx;
+    }
+
     try {
-      await fn(txnContext, txn);
-      await txn.commit();
-    } catch (e) {
-      await txn.rollback();
-      let errSuffix = '';
-      if (e != null) {
-        errSuffix = ': ' + String(e);
-      }
-      throw new Error(`Transaction failed${errSuffix}`, {
-        cause: e instanceof Error ? e : undefined,
-      });
+      return await this.#runAttempts(
+        ctx,
+        begin,
+        fn,
+        opts,
+        existingTxn,
+        timeout
+      );
+    } finally {
+      timeout?.dispose();
     }
   }
 
-  in(
+  async #runAttempts<R>(
     ctx: IContext,
-    fn: (ctx: IContext, txn: T) => Promise<unknown> | unknown
-  ): Promise<void>;
-  in(
-    ctx: IContext,
-    opts: TxnOptions,
-    fn: (ctx: IContext, txn: T) => Promise<unknown> | unknown
-  ): Promise<void>;
-  async in(
-    ctx: IContext,
-    fnOrOpts: TxnOptions | TxnCallback<T>,
-    maybeFn?: TxnCallback<T>
-  ): Promise<void> {
-    // Resolve the overloaded arguments
-    let fn: TxnCallback<T>;
-    let opts: TxnOptions | undefined;
+    begin: TxnBegin<T>,
+    fn: TxnCallback<T, R>,
+    opts: TxnRunOptions | undefined,
+    existingTxn: Maybe<T>,
+    timeout: TimeoutContext | undefined
+  ): Promise<R> {
+    const clr = ctx.canceler;
+    const timedOut = () => timeout?.timedOut === true;
+    const hooks = this.#callHooks
+      ? (this.#config.hooks || []).concat(getTxnHooks(ctx))
+      : [];
 
-    if (typeof fnOrOpts === 'function') {
-      fn = fnOrOpts;
-      opts = undefined;
-    } else {
-      fn = <TxnCallback<T>>maybeFn;
-      opts = fnOrOpts;
-    }
+    // Only the outermost transaction can be retried
+    const retry = existingTxn == null ? opts?.retry : undefined;
 
-    // Look for an existing transaction
-    const existingTxn = this.#getTxn(ctx);
-    if (existingTxn != null) {
-      // Already an existing transaction. Run the callback
-      // using provided context and existing transaction
-      await fn(ctx, existingTxn);
-      return;
-    }
+    for (let attempt = 1; ; attempt++) {
+      if (clr?.canceled) {
+        throw new TxnCanceledError('begin', timedOut());
+      }
 
-    if (opts == undefined) {
-      return this.run(ctx, fn);
-    } else {
-      return this.run(ctx, opts, fn);
+      const startTime = Date.now();
+      const bag = new TxnBagImpl(
+        existingTxn != null ? TxnBagImpl.from(ctx) : null
+      );
+      const event = (
+        evtCtx: IContext,
+        txn?: Txn,
+        error?: unknown
+      ): TxnHookEvent => ({
+        ctx: evtCtx,
+        opts,
+        txn,
+        nested: existingTxn != null,
+        attempt,
+        startTime,
+        elapsedMs: Date.now() - startTime,
+        error,
+        bag: txn == null ? undefined : bag,
+      });
+
+      // The transaction provided to the callback, and the
+      // scope to commit or rollback. These are the same
+      // except when emulating a nested transaction.
+      let txn: T;
+      let scope: Txn;
+      try {
+        await callHooks(hooks, 'beforeBegin', event(ctx));
+        [txn, scope] = await begin(ctx, opts);
+      } catch (e) {
+        const err = new TxnFailedError('begin', e, opts);
+        await notifyHooks(hooks, 'onError', event(ctx, undefined, err));
+        throw err;
+      }
+
+      const isNewTxn = scope === txn;
+      if (opts?.readOnly === true && this.#mutating.size > 0) {
+        txn = guardReadOnly(txn, this.#mutating);
+      }
+
+      if (isNewTxn) {
+        txnOptions.set(txn, {
+          isolationLevel: opts?.isolationLevel,
+          readOnly: opts?.readOnly,
+        });
+      }
+
+      // A nested transaction's callbacks wait for its parent
+      const callbacks = new TxnCallbacks(
+        existingTxn != null ? TxnCallbacks.from(ctx) : null
+      );
+      const txnContext = bag.attach(callbacks.attach(this.#withTxn(ctx, txn)));
+      let phase: TxnPhase = 'begin';
+      let result: R;
+      try {
+        await callHooks(hooks, 'afterBegin', event(txnContext, txn));
+
+        // Wait for the callback to settle even if canceled, so
+        // it cannot use the transaction after it is rolled back
+        phase = 'callback';
+        result = await fn(txnContext, txn);
+        if (clr?.canceled) {
+          throw canceled;
+        }
+
+        phase = 'commit';
+        await callHooks(hooks, 'beforeCommit', event(txnContext, txn));
+        if (clr?.canceled) {
+          throw canceled;
+        }
+        await scope.commit();
+        await notifyHooks(hooks, 'afterCommit', event(txnContext, txn));
+      } catch (e) {
+        // Rollback, but do not let a rollback failure
+        // hide the error that caused the rollback
+        let rbErr: unknown;
+        try {
+          await scope.rollback();
+        } catch (err) {
+          rbErr = err;
+        }
+        await callbacks.rolledBack(ctx);
+
+        let err: TxnError;
+        let retryable = false;
+        if (clr?.canceled) {
+          const cause = e === canceled ? undefined : e;
+          err = new TxnCanceledError(phase, timedOut(), cause, rbErr);
+        } else {
+          if (rbErr !== undefined) {
+            err = new TxnFailedError(phase, e, opts, rbErr);
+          } else if (phase === 'commit' && e instanceof TxnFailedError) {
+            // A change set's underlying transactions report their
+            // own failure at commit. Do not wrap it again
+            err = e;
+          } else {
+            err = new TxnFailedError(phase, e, opts);
+          }
+
+          // Many drivers end the transaction when commit fails, so
+          // rollback is expected to fail. Retry commit conflicts anyway
+          retryable =
+            retry != null &&
+            attempt < retry.maxAttempts &&
+            (rbErr === undefined || phase === 'commit') &&
+            retry.isRetryable(e);
+        }
+
+        if (rbErr === undefined) {
+          await notifyHooks(hooks, 'afterRollback', event(txnContext, txn));
+        }
+        await notifyHooks(hooks, 'onError', event(txnContext, txn, err));
+        bag.rolledBack();
+
+        if (
+          retryable &&
+          (await waitRetry(ctx, retryDelay(<RetryPolicy>retry, attempt)))
+        ) {
+          continue;
+        }
+
+        throw err;
+      }
+
+      // Committed. Outside the try block because a failing
+      // callback must not attempt to roll back or retry
+      try {
+        await callbacks.committed(ctx);
+      } finally {
+        bag.committed();
+      }
+      return result;
     }
   }
 }
 
+/** A registered change set callback, for introspection */
+interface CsEntry extends ChangeSetEntry {
+  started: boolean;
+}
+
 class ChangeSetImpl implements ChangeSet {
   protected readonly commitFns: CtxCallback[] = [];
   protected readonly rollbackFns: CtxCallback[] = [];
+  protected readonly undoFns: CtxCallback[] = [];
   protected readonly ctx: IContext;
+  protected readonly config: ChangeSetConfig;
+  readonly #groups = new Map<string, CtxCallback[]>();
+  readonly #entries: CsEntry[] = [];
 
-  protected done = false;
-  protected ignoreStatus = false;
+  protected status = ChangeSetState.open;
 
-  constructor(ctx: IContext) {
+  constructor(ctx: IContext, config: ChangeSetConfig) {
     this.ctx = ctx;
+    this.config = config;
+  }
+
+  get state(): ChangeSetState {
+    return this.status;
   }
 
   protected checkStatus() {
-    if (this.done) {
-      throw new Error('Change set is already committed or rolled back');
+    if (
+      this.status === ChangeSetState.committing ||
+      this.status === ChangeSetState.rollingBack
+    ) {
+      // Callbacks are being iterated. Reject rather than
+      // silently run or drop anything they register
+      throw new TxnInProgressError();
     }
+    if (this.status !== ChangeSetState.open) {
+      throw new TxnCompletedError(
+        'Change set is already committed or rolled back'
+      );
+    }
+  }
+
+  /**
+   * Record a callback for introspection. Returns a wrapper
+   * which marks the callback as started when it is invoked.
+   */
+  protected track<A extends unknown[]>(
+    kind: ChangeSetEntryKind,
+    label: string | undefined,
+    fn: (...args: A) => Promise<unknown> | unknown,
+    group?: string
+  ): (...args: A) => Promise<unknown> | unknown {
+    const entry: CsEntry = { kind, label, group, started: false };
+    this.#entries.push(entry);
+    return (...args: A) => {
+      entry.started = true;
+      return fn(...args);
+    };
   }
 
-  defer(fn: (ctx: IContext) => Promise<unknown> | unknown): void {
+  pending(): ChangeSetEntry[] {
+    const commitPending =
+      this.status === ChangeSetState.open ||
+      this.status === ChangeSetState.committing;
+    const failPending =
+      this.status !== ChangeSetState.committed &&
+      this.status !== ChangeSetState.rolledBack;
+
+    return this.#entries
+      .filter(
+        (e) =>
+          !e.started && (e.kind === 'deferFail' ? failPending : commitPending)
+      )
+      .map(({ kind, label, group }) => ({ kind, label, group }));
+  }
+
+  pendingCount(kind?: ChangeSetEntryKind): number {
+    const pending = this.pending();
+    if (kind == null) {
+      return pending.length;
+    }
+    return pending.filter((e) => e.kind === kind).length;
+  }
+
+  defer(
+    fn: (ctx: IContext) => Promise<unknown> | unknown,
+    label?: string
+  ): void {
     this.checkStatus();
-    this.commitFns.push(fn);
+    this.commitFns.push(this.track('defer', label, fn));
   }
 
-  deferFail(fn: (ctx: IContext) => Promise<unknown> | unknown): void {
+  deferFail(
+    fn: (ctx: IContext) => Promise<unknown> | unknown,
+    label?: string
+  ): void {
     this.checkStatus();
-    this.rollbackFns.push(fn);
+    this.rollbackFns.push(this.track('deferFail', label, fn));
   }
 
-  async commit(): Promise<void> {
+  deferParallel(
+    group: string,
+    fn: (ctx: IContext) => Promise<unknown> | unknown,
+    label?: string
+  ): void {
     this.checkStatus();
-    this.done = true;
-    const ctx = this.ctx;
-    let ok = false;
+    let fns = this.#groups.get(group);
+    if (fns == null) {
+      // Run the whole group at the position of its first callback
+      const groupFns: CtxCallback[] = (fns = []);
+      const limit = this.config.parallelLimit ?? Infinity;
+      this.commitFns.push((ctx) => runParallel(ctx, groupFns, limit));
+      this.#groups.set(group, fns);
+    }
+    fns.push(this.track('deferParallel', label, fn, group));
+  }
+
+  step(
+    fn: (ctx: IContext) => Promise<unknown> | unknown,
+    undo: (ctx: IContext) => Promise<unknown> | unknown,
+    label?: string
+  ): void {
+    this.checkStatus();
+    const tracked = this.track('step', label, fn);
+    this.commitFns.push(async (ctx) => {
+      await tracked(ctx);
+      this.undoFns.push(undo);
+    });
+  }
+
+  /** Run the commit callbacks, tracking the state of the change set */
+  protected async runCommit(fn: () => Promise<void>): Promise<void> {
+    this.checkStatus();
+    this.status = ChangeSetState.committing;
     try {
+      await fn();
+      this.status = ChangeSetState.committed;
+    } catch (e) {
+      this.status = ChangeSetState.failed;
+      throw e;
+    }
+  }
+
+  commit(): Promise<void> {
+    return this.runCommit(async () => {
       for (const fn of this.commitFns) {
-        await fn(ctx);
+        await fn(this.ctx);
       }
-      ok = true;
-    } finally {
-      this.ignoreStatus = !ok;
-    }
+    });
   }
 
   async rollback(): Promise<void> {
-    if (this.ignoreStatus) {
-      // rollback is being called after commit() failed
-      this.ignoreStatus = false;
-    } else {
+    if (this.status !== ChangeSetState.failed) {
+      // Not being called after commit() failed
       this.checkStatus();
     }
-    this.done = true;
+    this.status = ChangeSetState.rollingBack;
     const ctx = this.ctx;
-    for (const fn of this.rollbackFns) {
-      await fn(ctx);
+
+    // Compensate completed steps, most recent first
+    const fns = this.undoFns.concat().reverse();
+    if (this.config.rollbackOrder === RollbackOrder.lifo) {
+      fns.push(...this.rollbackFns.concat().reverse());
+    } else {
+      fns.push(...this.rollbackFns);
+    }
+
+    // Give every callback a chance to run
+    const errors: unknown[] = [];
+    for (const fn of fns) {
+      try {
+        await fn(ctx);
+      } catch (e) {
+        errors.push(e);
+      }
+    }
+    this.status = ChangeSetState.rolledBack;
+
+    if (errors.length > 0) {
+      throw new RollbackFailedError(errors);
     }
   }
 }
@@ -369,42 +1138,163 @@ class TxnChangeSetImpl<T extends Txn>
   readonly #commitTxn: TxnCallback<T>[] = [];
   readonly #txnRunner: TxnRunner<T>;
 
-  constructor(ctx: IContext, txnRunner: TxnRunner<T>) {
-    super(ctx);
+  constructor(ctx: IContext, txnRunner: TxnRunner<T>, config: ChangeSetConfig) {
+    super(ctx, config);
     this.#txnRunner = txnRunner;
   }
 
-  deferTxn(fn: (ctx: IContext, txn: T) => Promise<unknown> | unknown): void {
-    this.#commitTxn.push(fn);
-  }
-
-  async commit(): Promise<void> {
+  deferTxn(
+    fn: (ctx: IContext, txn: T) => Promise<unknown> | unknown,
+    label?: string
+  ): void {
     this.checkStatus();
-    this.done = true;
-    let ok = false;
-    const ctx = this.ctx;
+    this.#commitTxn.push(this.track('deferTxn', label, fn));
+  }
 
-    if (this.#commitTxn.length > 0) {
-      try {
+  commit(): Promise<void> {
+    return this.runCommit(async () => {
+      const ctx = this.ctx;
+      if (this.#commitTxn.length > 0) {
         await this.#txnRunner.run(ctx, async (txCtx, txn) => {
           for (const fn of this.#commitTxn) {
             await fn(txCtx, txn);
           }
         });
-        ok = true;
-      } finally {
-        this.ignoreStatus = !ok;
       }
-    }
 
-    ok = false;
-    try {
       for (const fn of this.commitFns) {
         await fn(ctx);
       }
-      ok = true;
-    } finally {
-      this.ignoreStatus = !ok;
+    });
+  }
+}
+
+class MultiTxnChangeSetImpl<M extends { [K in keyof M]: Txn }>
+  extends ChangeSetImpl
+  implements MultiTxnChangeSet<M>
+{
+  readonly #accessors: TxnAccessors<M>;
+  readonly #commitTxn = new Map<string, TxnCallback<Txn>[]>();
+
+  constructor(
+    ctx: IContext,
+    accessors: TxnAccessors<M>,
+    config: ChangeSetConfig
+  ) {
+    super(ctx, config);
+    this.#accessors = accessors;
+  }
+
+  deferTxn<K extends keyof M & string>(
+    name: K,
+    fn: (ctx: IContext, txn: M[K]) => Promise<unknown> | unknown,
+    label?: string
+  ): void {
+    this.checkStatus();
+    if (!Object.prototype.hasOwnProperty.call(this.#accessors, name)) {
+      throw new NoTxnAccessorError(name);
+    }
+
+    let fns = this.#commitTxn.get(name);
+    if (fns == null) {
+      this.#commitTxn.set(name, (fns = []));
+    }
+    fns.push(<TxnCallback<Txn>>this.track('deferTxn', label, fn));
+  }
+
+  commit(): Promise<void> {
+    return this.runCommit(async () => {
+      await this.#commitTxns();
+      for (const fn of this.commitFns) {
+        await fn(this.ctx);
+      }
+    });
+  }
+
+  async #commitTxns(): Promise<void> {
+    const ctx = this.ctx;
+    const accessors = <{ [name: string]: TxnAccessor<Txn> }>(
+      (<unknown>this.#accessors)
+    );
+
+    // Transactions which are open and not yet committed, each
+    // with its own afterCommit / afterRollback callbacks and bag
+    const open: [Txn, TxnCallbacks, TxnBagImpl][] = [];
+    const committed: [TxnCallbacks, TxnBagImpl][] = [];
+    let phase: TxnPhase = 'begin';
+    try {
+      for (const name of Object.keys(accessors)) {
+        const fns = this.#commitTxn.get(name);
+        if (fns == null) {
+          continue;
+        }
+
+        phase = 'begin';
+        const accessor = accessors[name];
+        const txnSrc = accessor.getTransactable(ctx);
+        if (txnSrc == null) {
+          throw new NoTransactableError();
+        }
+        const txn = await txnSrc.beginTxn(ctx);
+        const callbacks = new TxnCallbacks(null);
+        const bag = new TxnBagImpl(null);
+        open.push([txn, callbacks, bag]);
+
+        phase = 'callback';
+        const txnCtx = bag.attach(callbacks.attach(accessor.withTxn(ctx, txn)));
+        for (const fn of fns) {
+          await fn(txnCtx, txn);
+        }
+      }
+
+      phase = 'commit';
+      while (open.length > 0) {
+        const [txn, callbacks, bag] = open[0];
+        await txn.commit();
+        open.shift();
+        committed.push([callbacks, bag]);
+      }
+    } catch (e) {
+      // Rollback everything not yet committed, but do not
+      // let a rollback failure hide the original error
+      let rbErr: unknown;
+      for (const [txn, callbacks, bag] of open) {
+        try {
+          await txn.rollback();
+        } catch (err) {
+          rbErr ??= err;
+        }
+        await callbacks.rolledBack(ctx);
+        bag.rolledBack();
+      }
+
+      // Transactions committed before the failure stay committed
+      for (const [callbacks, bag] of committed) {
+        await callbacks.committed(ctx).catch(() => undefined);
+        bag.committed();
+      }
+      throw new TxnFailedError(phase, e, undefined, rbErr);
+    }
+
+    // All committed. Outside the try block because a failing
+    // callback must not roll back the remaining transactions.
+    // Each transaction's callbacks run even if another's fail
+    let cbErr: unknown;
+    let cbFailed = false;
+    for (const [callbacks, bag] of committed) {
+      try {
+        await callbacks.committed(ctx);
+      } catch (e) {
+        if (!cbFailed) {
+          cbErr = e;
+          cbFailed = true;
+        }
+      } finally {
+        bag.committed();
+      }
+    }
+    if (cbFailed) {
+      throw cbErr;
     }
   }
 }
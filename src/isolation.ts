@@ -0,0 +1,67 @@
+// Copyright 2022 Joshua Honig. All rights reserved.
+// Use of this source code is governed by a MIT
+// license that can be found in the LICENSE file.
+
+import { IContext } from '@sabl/context';
+import { IsolationUnsupportedError } from './errors';
+import {
+  IsolationLevel,
+  IsolationPolicy,
+  TxnRunnerConfig,
+  TxnRunOptions,
+} from './types';
+
+/**
+ * Compare the strength of two isolation levels. Returns a
+ * negative number if `a` is weaker than `b`, zero if they are
+ * the same, and a positive number if `a` is stronger than `b`.
+ */
+export function compareIsolation(a: IsolationLevel, b: IsolationLevel): number {
+  return a - b;
+}
+
+/**
+ * Apply the runner's isolation policy to the requested options.
+ * Returns the options to begin the transaction with, which are
+ * the same options if no adjustment is needed.
+ */
+export function negotiateIsolation(
+  ctx: IContext,
+  opts: TxnRunOptions | undefined,
+  supported: readonly IsolationLevel[] | undefined,
+  config: TxnRunnerConfig
+): TxnRunOptions | undefined {
+  const requested = opts?.isolationLevel;
+  if (
+    requested == null ||
+    requested === IsolationLevel.default ||
+    supported == null ||
+    supported.includes(requested)
+  ) {
+    return opts;
+  }
+
+  const sorted = [...supported].sort(compareIsolation);
+  let level: IsolationLevel | undefined;
+  switch (config.isolationPolicy) {
+    case IsolationPolicy.upgrade:
+      level = sorted.find((l) => compareIsolation(l, requested) > 0);
+      break;
+    case IsolationPolicy.downgrade:
+      level = sorted
+        .reverse()
+        .find(
+          (l) =>
+            l !== IsolationLevel.default && compareIsolation(l, requested) < 0
+        );
+      if (level != null) {
+        config.onIsolationDowngrade?.(ctx, requested, level);
+      }
+      break;
+  }
+
+  if (level == null) {
+    throw new IsolationUnsupportedError(requested, supported);
+  }
+  return { ...opts, isolationLevel: level };
+}
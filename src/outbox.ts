@@ -0,0 +1,143 @@
+// Copyright 2022 Joshua Honig. All rights reserved.
+// Use of this source code is governed by a MIT
+// license that can be found in the LICENSE file.
+
+import { IContext } from '@sabl/context';
+import { afterCommit } from './callbacks';
+import {
+  OutboxDispatch,
+  OutboxMessage,
+  OutboxMessageInit,
+  OutboxRelay,
+  OutboxRelayOptions,
+  OutboxStore,
+  Txn,
+  TxnChangeSet,
+} from './types';
+
+/**
+ * Write a message to `store` within the change set's underlying
+ * transaction. The message is only delivered by a relay if the
+ * transaction commits.
+ */
+export function deferOutbox<T extends Txn>(
+  cs: TxnChangeSet<T>,
+  store: OutboxStore<T>,
+  topic: string,
+  payload: unknown,
+  label?: string
+): void {
+  cs.deferTxn((ctx, txn) => store.add(ctx, txn, [{ topic, payload }]), label);
+}
+
+class OutboxRelayImpl<T extends Txn> implements OutboxRelay {
+  readonly #store: OutboxStore<T>;
+  readonly #dispatch: OutboxDispatch;
+  readonly #batchSize: number;
+  #draining: Promise<number> | null = null;
+
+  constructor(
+    store: OutboxStore<T>,
+    dispatch: OutboxDispatch,
+    opts?: OutboxRelayOptions
+  ) {
+    this.#store = store;
+    this.#dispatch = dispatch;
+    this.#batchSize = opts?.batchSize || 100;
+  }
+
+  drain(ctx: IContext): Promise<number> {
+    // Share a drain already in progress, so that
+    // messages are not delivered twice by one relay
+    if (this.#draining == null) {
+      this.#draining = this.#drain(ctx).finally(() => {
+        this.#draining = null;
+      });
+    }
+    return this.#draining;
+  }
+
+  async #drain(ctx: IContext): Promise<number> {
+    const clr = ctx.canceler;
+    let count = 0;
+    for (;;) {
+      const batch = await this.#store.fetch(ctx, this.#batchSize);
+      for (const msg of batch) {
+        if (clr?.canceled) {
+          return count;
+        }
+        await this.#dispatch(ctx, msg);
+        await this.#store.ack(ctx, [msg.id]);
+        count++;
+      }
+      if (batch.length < this.#batchSize) {
+        return count;
+      }
+    }
+  }
+}
+
+/**
+ * Create a relay which delivers messages from `store` with
+ * `dispatch`. A message is acknowledged only after it is
+ * dispatched, so it may be delivered again if acknowledging
+ * fails or the process stops in between. Consumers should
+ * be idempotent.
+ */
+export function outboxRelay<T extends Txn>(
+  store: OutboxStore<T>,
+  dispatch: OutboxDispatch,
+  opts?: OutboxRelayOptions
+): OutboxRelay {
+  return new OutboxRelayImpl(store, dispatch, opts);
+}
+
+class MemOutboxStore implements OutboxStore<Txn> {
+  readonly #messages = new Map<string, OutboxMessage>();
+  #seq = 0;
+
+  add(
+    ctx: IContext,
+    txn: Txn,
+    messages: readonly OutboxMessageInit[]
+  ): Promise<void> {
+    const added = messages.map(
+      (m): OutboxMessage => ({
+        id: String(++this.#seq),
+        topic: m.topic,
+        payload: m.payload,
+        createdAt: new Date(),
+      })
+    );
+
+    // Only visible once the transaction on the context commits
+    afterCommit(ctx, () => {
+      for (const msg of added) {
+        this.#messages.set(msg.id, msg);
+      }
+    });
+    return Promise.resolve();
+  }
+
+  fetch(ctx: IContext, limit: number): Promise<OutboxMessage[]> {
+    return Promise.resolve([...this.#messages.values()].slice(0, limit));
+  }
+
+  ack(ctx: IContext, ids: readonly string[]): Promise<void> {
+    for (const id of ids) {
+      this.#messages.delete(id);
+    }
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Create an in-memory {@link OutboxStore} for tests. Messages are
+ * only returned by `fetch` once the transaction which added them
+ * commits. Supports the `deferTxn` callbacks of `txnChangeSet` and
+ * `multiTxnChangeSet`, but not `twoPhase`, which does not run
+ * {@link afterCommit} callbacks.
+ */
+export function memOutboxStore(): OutboxStore<Txn> {
+  return new MemOutboxStore();
+}
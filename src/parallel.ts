@@ -0,0 +1,47 @@
+// Copyright 2022 Joshua Honig. All rights reserved.
+// Use of this source code is governed by a MIT
+// license that can be found in the LICENSE file.
+
+import { IContext } from '@sabl/context';
+import { CtxCallback } from './types';
+
+/**
+ * Run the callbacks concurrently, with at most `limit` running
+ * at once. If a callback rejects, no further callbacks are
+ * started. Resolves once all started callbacks have settled,
+ * rejecting with the first error if any callback rejected.
+ */
+export async function runParallel(
+  ctx: IContext,
+  fns: readonly CtxCallback[],
+  limit: number
+): Promise<void> {
+  let next = 0;
+  let failed = false;
+  let firstErr: unknown;
+
+  const worker = async () => {
+    while (!failed && next < fns.length) {
+      const fn = fns[next++];
+      try {
+        await fn(ctx);
+      } catch (e) {
+        if (!failed) {
+          failed = true;
+          firstErr = e;
+        }
+      }
+    }
+  };
+
+  const workers: Promise<void>[] = [];
+  const count = Math.max(1, Math.min(limit, fns.length));
+  for (let i = 0; i < count; i++) {
+    workers.push(worker());
+  }
+  await Promise.all(workers);
+
+  if (failed) {
+    throw firstErr;
+  }
+}
@@ -0,0 +1,41 @@
+// Copyright 2022 Joshua Honig. All rights reserved.
+// Use of this source code is governed by a MIT
+// license that can be found in the LICENSE file.
+
+import { TxnReadOnlyError } from './errors';
+import { Txn } from './types';
+
+/** The methods of a ChangeSet which schedule changes */
+export const changeSetMutating: readonly string[] = [
+  'defer',
+  'deferParallel',
+  'step',
+];
+
+/** The methods of a TxnChangeSet or MultiTxnChangeSet which schedule changes */
+export const txnChangeSetMutating: readonly string[] = [
+  ...changeSetMutating,
+  'deferTxn',
+];
+
+/**
+ * Wrap a transaction so that calling any of the `mutating`
+ * methods throws a {@link TxnReadOnlyError}. Other methods
+ * are bound to the transaction, so they work with private fields.
+ */
+export function guardReadOnly<T extends Txn>(
+  txn: T,
+  mutating: ReadonlySet<string | symbol>
+): T {
+  return new Proxy(txn, {
+    get(target, prop) {
+      if (mutating.has(prop)) {
+        return () => {
+          throw new TxnReadOnlyError(String(prop));
+        };
+      }
+      const value = Reflect.get(target, prop);
+      return typeof value === 'function' ? value.bind(target) : value;
+    },
+  });
+}
@@ -0,0 +1,51 @@
+// Copyright 2022 Joshua Honig. All rights reserved.
+// Use of this source code is governed by a MIT
+// license that can be found in the LICENSE file.
+
+import { IContext } from '@sabl/context';
+import { RetryPolicy } from './types';
+
+const defaultBaseDelayMs = 10;
+const defaultMaxDelayMs = 1000;
+
+/**
+ * Compute the delay before the next attempt, using
+ * exponential backoff with optional full jitter.
+ * `attempt` is the number of the attempt that just failed,
+ * starting at 1.
+ */
+export function retryDelay(policy: RetryPolicy, attempt: number): number {
+  const base = policy.baseDelayMs ?? defaultBaseDelayMs;
+  const max = policy.maxDelayMs ?? defaultMaxDelayMs;
+  const delay = Math.min(max, base * Math.pow(2, attempt - 1));
+  if (policy.jitter === false) {
+    return delay;
+  }
+  return Math.random() * delay;
+}
+
+/**
+ * Wait `ms` milliseconds before retrying. Resolves to false
+ * without waiting out the delay if the context is canceled.
+ */
+export function waitRetry(ctx: IContext, ms: number): Promise<boolean> {
+  const clr = ctx.canceler;
+  if (clr == null) {
+    return new Promise((resolve) => setTimeout(() => resolve(true), ms));
+  }
+  if (clr.canceled) {
+    return Promise.resolve(false);
+  }
+
+  return new Promise((resolve) => {
+    const onCancel = () => {
+      clearTimeout(timer);
+      resolve(false);
+    };
+    const timer = setTimeout(() => {
+      clr.off(onCancel);
+      resolve(true);
+    }, ms);
+    clr.onCancel(onCancel);
+  });
+}
@@ -0,0 +1,233 @@
+// Copyright 2022 Joshua Honig. All rights reserved.
+// Use of this source code is governed by a MIT
+// license that can be found in the LICENSE file.
+
+import { IContext } from '@sabl/context';
+import { TxnBagImpl } from './bag';
+import { TxnCallbacks } from './callbacks';
+import {
+  NoTransactableError,
+  NoTxnAccessorError,
+  TxnFailedError,
+  TxnInDoubtError,
+  TxnPhase,
+} from './errors';
+import {
+  DecisionLog,
+  PreparableTransactable,
+  PreparableTxn,
+  PreparableTxnAccessor,
+  PreparableTxnAccessors,
+  TwoPhaseCoordinator,
+  TwoPhaseDecision,
+  TwoPhaseRecord,
+} from './types';
+
+let txnSeq = 0;
+
+function newTxnId(): string {
+  const rand = Math.random().toString(36).slice(2, 10);
+  return `sabl_2pc_${Date.now().toString(36)}_${rand}_${++txnSeq}`;
+}
+
+/** The id a participant's transaction is prepared with */
+function participantId(id: string, name: string): string {
+  return `${id}.${name}`;
+}
+
+type ParticipantMap = {
+  readonly [name: string]: PreparableTxnAccessor<PreparableTxn>;
+};
+
+class TwoPhaseCoordinatorImpl<M extends { [K in keyof M]: PreparableTxn }>
+  implements TwoPhaseCoordinator<M>
+{
+  readonly #participants: ParticipantMap;
+  readonly #log: DecisionLog;
+
+  constructor(participants: PreparableTxnAccessors<M>, log: DecisionLog) {
+    this.#participants = <ParticipantMap>(<unknown>participants);
+    this.#log = log;
+  }
+
+  async run<R>(
+    ctx: IContext,
+    fn: (ctx: IContext, txns: M) => Promise<R> | R
+  ): Promise<R> {
+    const id = newTxnId();
+    const log = this.#log;
+    const open: [
+      string,
+      PreparableTxn,
+      PreparableTransactable<PreparableTxn>
+    ][] = [];
+    let prepared = 0;
+    const txns: { [name: string]: PreparableTxn } = {};
+
+    // One set of callbacks and one bag for all participants
+    const callbacks = new TxnCallbacks(null);
+    const bag = new TxnBagImpl(null);
+
+    let txnCtx = bag.attach(callbacks.attach(ctx));
+    let phase: TxnPhase = 'begin';
+    let logged = false;
+    let result: R;
+    try {
+      for (const [name, accessor] of Object.entries(this.#participants)) {
+        const txnSrc = accessor.getTransactable(ctx);
+        if (txnSrc == null) {
+          throw new NoTransactableError();
+        }
+        const txn = await txnSrc.beginTxn(ctx);
+        open.push([name, txn, txnSrc]);
+        txns[name] = txn;
+        txnCtx = accessor.withTxn(txnCtx, txn);
+      }
+
+      phase = 'callback';
+      result = await fn(txnCtx, <M>(<unknown>txns));
+
+      phase = 'prepare';
+      await log.begin(
+        id,
+        open.map(([name]) => name)
+      );
+      logged = true;
+      for (const [name, txn] of open) {
+        await txn.prepare(participantId(id, name));
+        prepared++;
+      }
+
+      // The commit point
+      phase = 'commit';
+      await log.decide(id, 'commit');
+    } catch (e) {
+      // Nothing was committed. Roll back everything, but
+      // do not let a rollback failure hide the original error.
+      // Prepared transactions can only be completed by id
+      let rbErr: unknown;
+      for (const [i, [name, txn, txnSrc]] of open.entries()) {
+        try {
+          if (i < prepared) {
+            await txnSrc.rollbackPrepared(ctx, participantId(id, name));
+          } else {
+            await txn.rollback();
+          }
+        } catch (err) {
+          rbErr ??= err;
+        }
+      }
+
+      if (logged && rbErr === undefined) {
+        // If this fails, recover() will find nothing to roll back
+        await log.complete(id).catch(() => undefined);
+      }
+
+      await callbacks.rolledBack(ctx);
+      bag.rolledBack();
+      throw new TxnFailedError(phase, e, undefined, rbErr);
+    }
+
+    // Decided to commit. Never roll back from here
+    const errors: unknown[] = [];
+    for (const [name, , txnSrc] of open) {
+      try {
+        await txnSrc.commitPrepared(ctx, participantId(id, name));
+      } catch (e) {
+        errors.push(e);
+      }
+    }
+    if (errors.length > 0) {
+      // Neither committed nor rolled back yet, so
+      // no afterCommit or afterRollback callbacks run
+      bag.rolledBack();
+      throw new TxnInDoubtError(id, errors);
+    }
+
+    // If this fails, recover() will find nothing to commit
+    await log.complete(id).catch(() => undefined);
+
+    try {
+      await callbacks.committed(ctx);
+    } finally {
+      bag.committed();
+    }
+    return result;
+  }
+
+  async recover(ctx: IContext): Promise<TwoPhaseRecord[]> {
+    const records = await this.#log.pending();
+    for (const record of records) {
+      for (const name of record.participants) {
+        const accessor = this.#participants[name];
+        if (accessor == null) {
+          throw new NoTxnAccessorError(name);
+        }
+        const txnSrc = accessor.getTransactable(ctx);
+        if (txnSrc == null) {
+          throw new NoTransactableError();
+        }
+
+        const pid = participantId(record.id, name);
+        if (record.decision === 'commit') {
+          await txnSrc.commitPrepared(ctx, pid);
+        } else {
+          // Presumed abort
+          await txnSrc.rollbackPrepared(ctx, pid);
+        }
+      }
+      await this.#log.complete(record.id);
+    }
+    return records;
+  }
+}
+
+/**
+ * Create a two-phase commit coordinator for several named
+ * participants, each with its own context accessor. Transactions
+ * are begun, prepared and committed in the order of the keys of
+ * `participants`. Decisions are recorded in `log` so that in-doubt
+ * transactions can be completed with `recover()` after a crash.
+ */
+export function twoPhase<M extends { [K in keyof M]: PreparableTxn }>(
+  participants: PreparableTxnAccessors<M>,
+  log: DecisionLog
+): TwoPhaseCoordinator<M> {
+  return new TwoPhaseCoordinatorImpl(participants, log);
+}
+
+class MemDecisionLog implements DecisionLog {
+  readonly #records = new Map<string, TwoPhaseRecord>();
+
+  begin(id: string, participants: readonly string[]): Promise<void> {
+    this.#records.set(id, { id, participants: participants.concat() });
+    return Promise.resolve();
+  }
+
+  decide(id: string, decision: TwoPhaseDecision): Promise<void> {
+    const record = this.#records.get(id);
+    if (record == null) {
+      return Promise.reject(new Error(`Unknown transaction: ${id}`));
+    }
+    this.#records.set(id, { ...record, decision });
+    return Promise.resolve();
+  }
+
+  complete(id: string): Promise<void> {
+    this.#records.delete(id);
+    return Promise.resolve();
+  }
+
+  pending(): Promise<TwoPhaseRecord[]> {
+    return Promise.resolve([...this.#records.values()]);
+  }
+}
+
+/**
+ * Create an in-memory {@link DecisionLog}. It is not durable,
+ * so is only suitable for tests, or for sharing between
+ * coordinators in one process.
+ */
+export function memDecisionLog(): DecisionLog {
+  return new MemDecisionLog();
+}
@@ -2,11 +2,16 @@
 // Use of this source code is governed by a MIT
 // license that can be found in the LICENSE file.
 
-import { ContextGetter, ContextSetter, IContext } from '@sabl/context';
+import { ContextGetter, ContextSetter, IContext, Maybe } from '@sabl/context';
 
 /**
  * Various isolation levels that storage drivers may support in beginTxn.
  * If a driver does not support a given isolation level an error may be returned.
+ *
+ * The numeric values increase with the strength of the isolation
+ * level, so levels can be compared with `compareIsolation`.
+ * {@link IsolationLevel.default} is the driver's own default,
+ * and is weaker than any explicit level.
  */
 export enum IsolationLevel {
   default = 1,
@@ -25,6 +30,317 @@ export interface TxnOptions {
   readonly readOnly?: boolean;
 }
 
+/**
+ * What a runner does when a requested isolation level is
+ * not one of the {@link Transactable.supportedIsolationLevels}
+ */
+export enum IsolationPolicy {
+  /** Fail with an `IsolationUnsupportedError`. The default */
+  reject = 1,
+
+  /** Use the weakest supported level which is stronger than requested */
+  upgrade = 2,
+
+  /**
+   * Use the strongest supported level which is weaker than
+   * requested, and call `onIsolationDowngrade`
+   */
+  downgrade = 3,
+}
+
+/**
+ * How a callback run with {@link TxnRunner.run} or
+ * {@link TxnRunner.in} relates to a transaction that
+ * may already be open on the context.
+ */
+export enum Propagation {
+  /**
+   * Join the transaction on the context if there is one,
+   * else start a new transaction. Default for `in()`.
+   */
+  required = 1,
+
+  /**
+   * Always start a new transaction from the base {@link Transactable}.
+   * Any transaction already on the context is suspended: it is not
+   * visible to the callback, and is unaffected by the new transaction.
+   */
+  requiresNew = 2,
+
+  /** Join the transaction on the context. Fail if there is none. */
+  mandatory = 3,
+
+  /** Run without a transaction. Fail if there is one on the context. */
+  never = 4,
+
+  /**
+   * Join the transaction on the context if there is one,
+   * else run the callback without a transaction.
+   */
+  supports = 5,
+
+  /**
+   * Start a transaction nested within the transaction on the
+   * context if there is one, else start a new transaction.
+   * Default for `run()`.
+   */
+  nested = 6,
+}
+
+/**
+ * Policy for retrying a transaction which failed with
+ * a transient error, such as a serialization failure
+ * or deadlock. Each retry begins a new transaction from
+ * the same {@link Transactable} and re-invokes the callback.
+ */
+export interface RetryPolicy {
+  /** Maximum number of attempts, including the first. */
+  readonly maxAttempts: number;
+
+  /** Delay before the first retry. Doubles on each
+   * subsequent retry. Defaults to 10 ms. */
+  readonly baseDelayMs?: number;
+
+  /** Upper bound on the delay between attempts.
+   * Defaults to 1000 ms. */
+  readonly maxDelayMs?: number;
+
+  /** Randomize each delay between zero and the computed
+   * backoff ("full jitter"). Defaults to true. */
+  readonly jitter?: boolean;
+
+  /** Return true if the error is transient and the
+   * transaction should be attempted again. */
+  isRetryable(err: unknown): boolean;
+}
+
+/**
+ * Options to be used in {@link TxnRunner.run} and {@link TxnRunner.in}.
+ * The base {@link TxnOptions} are passed through to beginTxn.
+ */
+export interface TxnRunOptions extends TxnOptions {
+  /**
+   * Retry the transaction on transient failures. Retries
+   * are never attempted when the callback runs within an
+   * existing transaction, because only the outermost
+   * transaction can safely be started over.
+   */
+  readonly retry?: RetryPolicy;
+
+  /**
+   * Cancel the transaction if it has not been committed
+   * within this many milliseconds. The callback receives a
+   * child context which is canceled when the timeout elapses.
+   */
+  readonly timeoutMs?: number;
+
+  /**
+   * How the callback relates to a transaction already on the
+   * context. Defaults to {@link Propagation.nested} for `run()`
+   * and {@link Propagation.required} for `in()`. Modes which may
+   * run the callback without a transaction require
+   * {@link TxnOptionalRunOptions}.
+   */
+  readonly propagation?: Exclude<
+    Propagation,
+    Propagation.never | Propagation.supports
+  >;
+
+  /**
+   * A key identifying the logical operation, such as a client
+   * request id. If a run with the same key has already committed,
+   * the callback is not run again, and the saved result is returned
+   * instead. Requires an `idempotencyStore` in the runner config.
+   * Ignored if the callback runs without a transaction.
+   */
+  readonly idempotencyKey?: string;
+}
+
+/**
+ * Run options for propagation modes in which the
+ * callback may be invoked without a transaction.
+ */
+export interface TxnOptionalRunOptions
+  extends Omit<TxnRunOptions, 'propagation'> {
+  readonly propagation: Propagation.never | Propagation.supports;
+}
+
+/**
+ * Called when a callback requests options which are incompatible
+ * with those of the existing transaction it is joining. The handler
+ * may throw to reject the callback, or return to allow it to run.
+ */
+export type IncompatibleJoinHandler = (
+  ctx: IContext,
+  requested: TxnOptions,
+  existing: TxnOptions
+) => void;
+
+/**
+ * Called when a runner begins a transaction with a weaker
+ * isolation level than requested. The handler may throw to
+ * reject the run, or return to allow it to continue.
+ */
+export type IsolationDowngradeHandler = (
+  ctx: IContext,
+  requested: IsolationLevel,
+  actual: IsolationLevel
+) => void;
+
+/** Information about a transaction passed to each {@link TxnHooks} method */
+export interface TxnHookEvent {
+  /**
+   * The context of the transaction. Before the transaction
+   * has begun, this is the context provided to the runner.
+   */
+  readonly ctx: IContext;
+
+  /** The options provided to the runner, if any */
+  readonly opts?: TxnRunOptions;
+
+  /** The transaction, if it has begun */
+  readonly txn?: Txn;
+
+  /** True if the transaction is nested in an existing transaction */
+  readonly nested: boolean;
+
+  /** The attempt number, starting at 1. Greater than 1 on retries */
+  readonly attempt: number;
+
+  /** The time the attempt started, in milliseconds since the epoch */
+  readonly startTime: number;
+
+  /** Milliseconds elapsed since the attempt started */
+  readonly elapsedMs: number;
+
+  /** For `onError`, the error the attempt failed with */
+  readonly error?: unknown;
+
+  /**
+   * The transaction's bag, if it has begun. Values set by the
+   * callback are still available in `beforeCommit` and
+   * `afterCommit`, such as to publish collected domain events.
+   */
+  readonly bag?: TxnBag;
+}
+
+/** Transaction-scoped values. See `txnBag` */
+export interface TxnBag {
+  /** Get the value for a key, or undefined if not set */
+  get<V = unknown>(key: unknown): V | undefined;
+
+  /** True if a value is set for the key */
+  has(key: unknown): boolean;
+
+  /** Set the value for a key */
+  set(key: unknown, value: unknown): void;
+
+  /** Remove the value for a key. Returns true if one was set */
+  delete(key: unknown): boolean;
+
+  /** Get the value for a key, first setting it with `init` if not set */
+  getOrAdd<V>(key: unknown, init: () => V): V;
+}
+
+/**
+ * Callbacks invoked by a {@link TxnRunner} at each step of
+ * every transaction it starts. Hooks are not called when a
+ * callback joins an existing transaction.
+ *
+ * Errors thrown by `beforeBegin`, `afterBegin` or `beforeCommit`
+ * fail the transaction. Errors thrown by `afterCommit`,
+ * `afterRollback` or `onError` are ignored, because the outcome
+ * of the transaction has already been decided.
+ */
+export interface TxnHooks {
+  /** Called before beginning the transaction */
+  beforeBegin?(evt: TxnHookEvent): Promise<unknown> | unknown;
+
+  /** Called after beginning the transaction, before the callback */
+  afterBegin?(evt: TxnHookEvent): Promise<unknown> | unknown;
+
+  /** Called after the callback succeeds, before commit */
+  beforeCommit?(evt: TxnHookEvent): Promise<unknown> | unknown;
+
+  /** Called after the transaction is committed */
+  afterCommit?(evt: TxnHookEvent): Promise<unknown> | unknown;
+
+  /** Called after the transaction is successfully rolled back */
+  afterRollback?(evt: TxnHookEvent): Promise<unknown> | unknown;
+
+  /**
+   * Called when an attempt fails, including when it will be
+   * retried. `evt.error` is the `TxnFailedError` or
+   * `TxnCanceledError` describing the failure.
+   */
+  onError?(evt: TxnHookEvent): Promise<unknown> | unknown;
+}
+
+/** Configuration for a {@link TxnRunner} */
+export interface TxnRunnerConfig {
+  /**
+   * Called when a callback joins an existing transaction but
+   * requests a stronger isolation level, or requests read-write
+   * access within a read-only transaction. If not provided,
+   * the runner rejects with an `IncompatibleTxnError`.
+   */
+  readonly onIncompatibleJoin?: IncompatibleJoinHandler;
+
+  /**
+   * Hooks called for each transaction started by the runner,
+   * before any hooks registered on the context with `withTxnHooks`.
+   * For `txnChangeSet`, both kinds of hooks are called for the change
+   * set, but not for the underlying transaction it opens on commit.
+   */
+  readonly hooks?: readonly TxnHooks[];
+
+  /** Where to record the results of runs with an `idempotencyKey` */
+  readonly idempotencyStore?: IdempotencyStore;
+
+  /**
+   * Names of the methods of the transaction which modify data.
+   * When a run has `readOnly: true`, the callback receives a
+   * wrapped transaction on which these methods throw a
+   * `TxnReadOnlyError`, whether or not the driver enforces it.
+   * The scheduling methods of change sets are always included.
+   */
+  readonly mutatingMethods?: readonly (string | symbol)[];
+
+  /**
+   * What to do when a requested isolation level is not supported
+   * by the transactable. Only applies if the transactable declares
+   * its `supportedIsolationLevels`. Defaults to {@link IsolationPolicy.reject}.
+   */
+  readonly isolationPolicy?: IsolationPolicy;
+
+  /** Called when {@link IsolationPolicy.downgrade} weakens a requested level */
+  readonly onIsolationDowngrade?: IsolationDowngradeHandler;
+}
+
+/** The order in which `deferFail` callbacks run on rollback */
+export enum RollbackOrder {
+  /** Run in the order they were registered. The default */
+  fifo = 1,
+
+  /** Run in the reverse of the order they were registered */
+  lifo = 2,
+}
+
+/** Configuration for a {@link ChangeSet} runner */
+export interface ChangeSetConfig extends TxnRunnerConfig {
+  /**
+   * The order in which `deferFail` callbacks run.
+   * Defaults to {@link RollbackOrder.fifo}.
+   */
+  readonly rollbackOrder?: RollbackOrder;
+
+  /**
+   * The maximum number of callbacks in a `deferParallel`
+   * group which may run at once. Defaults to no limit.
+   */
+  readonly parallelLimit?: number;
+}
+
 /** An abstract transaction that can be committed or rolled back */
 export interface Txn {
   /** Commit all pending operations */
@@ -34,19 +350,43 @@ export interface Txn {
   rollback(): Promise<void>;
 }
 
+/**
+ * A transaction which supports named savepoints. When a
+ * nested transaction is requested within a transaction that
+ * implements this interface but is not itself {@link Transactable},
+ * the nested transaction is emulated with a savepoint.
+ */
+export interface SavepointTxn extends Txn {
+  /** Create a savepoint with the given name */
+  savepoint(name: string): Promise<void>;
+
+  /** Rollback all operations since the named savepoint */
+  rollbackTo(name: string): Promise<void>;
+
+  /** Release the named savepoint, keeping all operations since it was created */
+  release(name: string): Promise<void>;
+}
+
 /** An interface that can start a transaction of a given type */
 export interface Transactable<T extends Txn> {
   beginTxn(ctx: IContext, opts?: TxnOptions): Promise<T>;
+
+  /**
+   * The isolation levels the transactable can begin transactions
+   * with. If provided, runners check each requested level against
+   * it and apply their {@link IsolationPolicy}.
+   */
+  readonly supportedIsolationLevels?: readonly IsolationLevel[];
 }
 
 /** A simple asynchronous callback which accepts a context */
-export type CtxCallback = (ctx: IContext) => Promise<unknown> | unknown;
+export type CtxCallback<R = unknown> = (ctx: IContext) => Promise<R> | R;
 
 /** An asynchronous callback which accepts a context and a transaction */
-export type TxnCallback<T extends Txn> = (
+export type TxnCallback<T extends Txn, R = unknown> = (
   ctx: IContext,
   txn: T
-) => Promise<unknown> | unknown;
+) => Promise<R> | R;
 
 /**
  * A bundle of context getters and setters
@@ -59,39 +399,128 @@ export interface TxnAccessor<T extends Txn> {
   withTxn: ContextSetter<T>;
 }
 
+/**
+ * A {@link TxnAccessor} which also provides the context getter and
+ * setter for the connection transactions are started from
+ */
+export interface ConnTxnAccessor<
+  TConn extends Transactable<TTxn>,
+  TTxn extends Txn
+> extends TxnAccessor<TTxn> {
+  readonly getTransactable: ContextGetter<TConn>;
+
+  /** Set the connection, pool or other transactable on the context */
+  readonly withConn: ContextSetter<TConn>;
+
+  /** Get the connection, pool or other transactable from the context */
+  readonly getConn: ContextGetter<TConn>;
+
+  /**
+   * Get the transaction from the context if there is one,
+   * or else the connection. Useful when both implement
+   * the same API for queries and commands.
+   */
+  readonly getApi: ContextGetter<TConn | TTxn>;
+}
+
+/** A name or token under which a {@link TxnAccessor} is registered */
+export type TxnAccessorName = string | symbol;
+
 /** Abstract transaction runner */
 export interface TxnRunner<T extends Txn> {
   /**
    * Run a callback in a new transaction. If the callback
    * succeeds, commit the transaction. If it fails,
-   * rollback the transaction. This method will fail
-   * if there is already a transaction on the context
-   * and it does not support nested transactions.
+   * rollback the transaction. If there is already a
+   * transaction on the context, a nested transaction is
+   * started if the existing transaction is {@link Transactable},
+   * or emulated with a savepoint if it is a {@link SavepointTxn}.
+   * Otherwise this method will fail. Other behaviors can
+   * be selected with the `propagation` option.
+   * Resolves to the value returned by the callback
+   * once the transaction has been committed. If `ctx`
+   * is canceled before the transaction is committed, the
+   * transaction is rolled back and the promise rejects.
+   * The runner waits for the callback to settle before rolling
+   * back, so callbacks should watch the canceler of the context
+   * they receive and return early.
    */
-  run(
+  run<R>(
     ctx: IContext,
-    fn: (ctx: IContext, txn: T) => Promise<unknown> | unknown
-  ): Promise<void>;
-  run(
+    fn: (ctx: IContext, txn: T) => Promise<R> | R
+  ): Promise<R>;
+  run<R>(
     ctx: IContext,
-    opts: TxnOptions,
-    fn: (ctx: IContext, txn: T) => Promise<unknown> | unknown
-  ): Promise<void>;
+    opts: TxnOptionalRunOptions,
+    fn: (ctx: IContext, txn: T | undefined) => Promise<R> | R
+  ): Promise<R>;
+  run<R>(
+    ctx: IContext,
+    opts: TxnRunOptions,
+    fn: (ctx: IContext, txn: T) => Promise<R> | R
+  ): Promise<R>;
 
   /**
    * Run a callback in a transaction. If there is
    * already a transaction in `ctx`, use it. If not,
    * run and complete a new transaction as in `run()`.
+   * Resolves to the value returned by the callback.
    */
-  in(
+  in<R>(
     ctx: IContext,
-    fn: (ctx: IContext, txn: T) => Promise<unknown> | unknown
-  ): Promise<void>;
-  in(
+    fn: (ctx: IContext, txn: T) => Promise<R> | R
+  ): Promise<R>;
+  in<R>(
     ctx: IContext,
-    opts: TxnOptions,
-    fn: (ctx: IContext, txn: T) => Promise<unknown> | unknown
-  ): Promise<void>;
+    opts: TxnOptionalRunOptions,
+    fn: (ctx: IContext, txn: T | undefined) => Promise<R> | R
+  ): Promise<R>;
+  in<R>(
+    ctx: IContext,
+    opts: TxnRunOptions,
+    fn: (ctx: IContext, txn: T) => Promise<R> | R
+  ): Promise<R>;
+}
+
+/** The lifecycle state of a {@link ChangeSet} */
+export enum ChangeSetState {
+  /** Callbacks may be registered */
+  open = 1,
+
+  /** Commit callbacks are running */
+  committing = 2,
+
+  /** All commit callbacks succeeded */
+  committed = 3,
+
+  /** A commit callback failed. The change set will be rolled back */
+  failed = 4,
+
+  /** Rollback callbacks are running */
+  rollingBack = 5,
+
+  /** Rollback callbacks have run */
+  rolledBack = 6,
+}
+
+/** The method with which a change set callback was registered */
+export type ChangeSetEntryKind =
+  | 'defer'
+  | 'deferFail'
+  | 'deferParallel'
+  | 'step'
+  | 'deferTxn';
+
+/** Describes a callback registered on a {@link ChangeSet} */
+export interface ChangeSetEntry {
+  /** The method with which the callback was registered */
+  readonly kind: ChangeSetEntryKind;
+
+  /** The label provided when the callback was registered */
+  readonly label?: string;
+
+  /** The group of a `deferParallel` callback */
+  readonly group?: string;
 }
 
 /**
@@ -101,19 +530,82 @@ export interface TxnRunner<T extends Txn> {
  * the deferred callbacks are executed in series.
  * If any of them rejects, then any failure callbacks
  * scheduled with `deferFail` are executed.
+ *
+ * Callbacks can only be registered while the change set is
+ * open. Registering a callback, or calling `commit` or `rollback`,
+ * from within a callback of the same change set while it is
+ * committing or rolling back fails with `TxnInProgressError`.
+ * Registering a callback after the change set has completed
+ * throws `TxnCompletedError`.
  */
 export interface ChangeSet extends Txn {
-  /** Defer a callback be executed on commit. */
-  defer(fn: (ctx: IContext) => Promise<unknown> | unknown): void;
+  /** The current lifecycle state of the change set */
+  readonly state: ChangeSetState;
+
+  /**
+   * List the callbacks which have not yet run and may still run,
+   * in the order they were registered. Commit callbacks are no
+   * longer pending once started, or once the change set has failed
+   * or completed. `deferFail` callbacks are no longer pending once
+   * the change set is committed or rolled back.
+   */
+  pending(): ChangeSetEntry[];
+
+  /** Count the pending callbacks, optionally of only one kind */
+  pendingCount(kind?: ChangeSetEntryKind): number;
+
+  /**
+   * Defer a callback be executed on commit. The optional
+   * `label` describes the callback in {@link ChangeSet.pending}.
+   */
+  defer(
+    fn: (ctx: IContext) => Promise<unknown> | unknown,
+    label?: string
+  ): void;
 
   /** Defer a callback to be executed on rollback. */
-  deferFail(fn: (ctx: IContext) => Promise<unknown> | unknown): void;
+  deferFail(
+    fn: (ctx: IContext) => Promise<unknown> | unknown,
+    label?: string
+  ): void;
+
+  /**
+   * Defer a callback to be executed on commit, concurrently with
+   * the other callbacks in the same named group. The group runs at
+   * the position of its first callback, in order with the other
+   * deferred callbacks: it starts after all preceding callbacks
+   * complete, and all of its callbacks complete before any later
+   * callbacks start. If a callback in the group rejects, no more
+   * of the group's callbacks are started, and once the running
+   * callbacks settle the change set is rolled back as usual.
+   */
+  deferParallel(
+    group: string,
+    fn: (ctx: IContext) => Promise<unknown> | unknown,
+    label?: string
+  ): void;
+
+  /**
+   * Defer a saga step to be executed on commit, in order with
+   * any `defer` callbacks. If `fn` resolves, `undo` is registered
+   * to compensate for it on rollback. Compensations run in reverse
+   * order, before any `deferFail` callbacks. Steps which did not
+   * complete are not compensated.
+   */
+  step(
+    fn: (ctx: IContext) => Promise<unknown> | unknown,
+    undo: (ctx: IContext) => Promise<unknown> | unknown,
+    label?: string
+  ): void;
 
   /** Execute the deferred callbacks */
   commit(): Promise<void>;
 
-  /** Cancel execution of any further `defer` callbacks
-   * and executed any scheduled `deferFail` callbacks. */
+  /** Cancel execution of any further `defer` callbacks,
+   * compensate any completed steps, and executed any
+   * scheduled `deferFail` callbacks. Every callback is run
+   * even if an earlier one fails. Any failures are reported
+   * together in a `RollbackFailedError`. */
   rollback(): Promise<void>;
 }
 
@@ -132,5 +624,254 @@ export interface ChangeSet extends Txn {
  */
 export interface TxnChangeSet<T extends Txn> extends ChangeSet {
   /** Defer a callback be executed within an underlying transaction. */
-  deferTxn(fn: (ctx: IContext, txn: T) => Promise<unknown> | unknown): void;
+  deferTxn(
+    fn: (ctx: IContext, txn: T) => Promise<unknown> | unknown,
+    label?: string
+  ): void;
+}
+
+/** A {@link TxnAccessor} for each named transaction type in `M` */
+export type TxnAccessors<M extends { [K in keyof M]: Txn }> = {
+  readonly [K in keyof M]: TxnAccessor<M[K]>;
+};
+
+/**
+ * A {@link ChangeSet} that can schedule callbacks to be executed
+ * within several named underlying transactions, such as one in a
+ * relational database and one in a key-value store. When the
+ * change set is committed, each transaction with callbacks is
+ * opened and its callbacks are executed, in the order the
+ * accessors were provided. Then the transactions are committed
+ * in the same order. If any step fails, the transactions which
+ * are not yet committed are rolled back. Any `deferFail` callbacks
+ * are then executed, and can compensate for the transactions
+ * which were already committed.
+ */
+export interface MultiTxnChangeSet<M extends { [K in keyof M]: Txn }>
+  extends ChangeSet {
+  /** Defer a callback be executed within the named transaction. */
+  deferTxn<K extends keyof M & string>(
+    name: K,
+    fn: (ctx: IContext, txn: M[K]) => Promise<unknown> | unknown,
+    label?: string
+  ): void;
+}
+
+/**
+ * A transaction which supports the prepare phase of a two-phase
+ * commit, such as PostgreSQL's `PREPARE TRANSACTION` or an XA
+ * transaction. Once `prepare` resolves, the transaction must be
+ * able to commit even if the process crashes, and can be
+ * committed or rolled back later by its id through its
+ * {@link PreparableTransactable}. The coordinator only completes a
+ * prepared transaction by id, never with `commit` or `rollback`.
+ */
+export interface PreparableTxn extends Txn {
+  /** Prepare the transaction to commit under the given global id */
+  prepare(id: string): Promise<void>;
+}
+
+/** A {@link Transactable} which can complete prepared transactions */
+export interface PreparableTransactable<T extends PreparableTxn>
+  extends Transactable<T> {
+  /**
+   * Commit a transaction previously prepared with the given id.
+   * Must resolve if there is no such prepared transaction.
+   */
+  commitPrepared(ctx: IContext, id: string): Promise<void>;
+
+  /**
+   * Roll back a transaction previously prepared with the given id.
+   * Must resolve if there is no such prepared transaction.
+   */
+  rollbackPrepared(ctx: IContext, id: string): Promise<void>;
+}
+
+/** Context accessors for a participant in a two-phase commit */
+export interface PreparableTxnAccessor<T extends PreparableTxn>
+  extends TxnAccessor<T> {
+  readonly getTransactable: ContextGetter<PreparableTransactable<T>>;
+}
+
+/** A {@link PreparableTxnAccessor} for each named participant in `M` */
+export type PreparableTxnAccessors<
+  M extends { [K in keyof M]: PreparableTxn }
+> = {
+  readonly [K in keyof M]: PreparableTxnAccessor<M[K]>;
+};
+
+/** The outcome recorded for a two-phase commit */
+export type TwoPhaseDecision = 'commit' | 'rollback';
+
+/** A two-phase commit recorded in a {@link DecisionLog} */
+export interface TwoPhaseRecord {
+  /** The global id of the transaction */
+  readonly id: string;
+
+  /** The names of the participants */
+  readonly participants: readonly string[];
+
+  /**
+   * The recorded decision. If not set, no participant
+   * committed, and the transaction is rolled back on recovery.
+   */
+  readonly decision?: TwoPhaseDecision;
+}
+
+/**
+ * Durable storage for the decisions of a two-phase commit
+ * coordinator, used to complete in-doubt transactions after
+ * a crash. Each method must only resolve once its write is durable.
+ */
+export interface DecisionLog {
+  /** Record that participants are about to be prepared */
+  begin(id: string, participants: readonly string[]): Promise<void>;
+
+  /** Record the decision to commit or roll back */
+  decide(id: string, decision: TwoPhaseDecision): Promise<void>;
+
+  /** Forget a transaction which every participant has completed */
+  complete(id: string): Promise<void>;
+
+  /** List the transactions which have not been completed */
+  pending(): Promise<TwoPhaseRecord[]>;
+}
+
+/** Coordinates two-phase commits across several named participants */
+export interface TwoPhaseCoordinator<
+  M extends { [K in keyof M]: PreparableTxn }
+> {
+  /**
+   * Begin a transaction on every participant, and run the callback
+   * with all of them on the context. Then prepare all of them, and
+   * commit all or roll back all. Resolves to the callback result.
+   * Callbacks registered with `afterCommit` run once every
+   * participant has committed, and are skipped if any commit fails.
+   */
+  run<R>(
+    ctx: IContext,
+    fn: (ctx: IContext, txns: M) => Promise<R> | R
+  ): Promise<R>;
+
+  /**
+   * Complete every transaction left in the decision log, such
+   * as after a crash. Transactions with a commit decision are
+   * committed, and all others are rolled back. Should not be
+   * called while other runs of the coordinator are in progress.
+   * Resolves to the records which were completed.
+   */
+  recover(ctx: IContext): Promise<TwoPhaseRecord[]>;
+}
+
+/** A message to be written to an {@link OutboxStore} */
+export interface OutboxMessageInit {
+  /** The topic, queue or event type the message is sent to */
+  readonly topic: string;
+
+  /** The message body */
+  readonly payload: unknown;
+}
+
+/** A message which has been written to an {@link OutboxStore} */
+export interface OutboxMessage extends OutboxMessageInit {
+  /** The id assigned by the store */
+  readonly id: string;
+
+  /** The time the message was written */
+  readonly createdAt: Date;
+}
+
+/**
+ * Storage for a transactional outbox, usually a table in the
+ * same database as the application's own data. Messages are
+ * written in the same transaction as the changes they describe,
+ * so are only visible to a relay if that transaction commits.
+ */
+export interface OutboxStore<T extends Txn> {
+  /** Write messages within the given transaction */
+  add(
+    ctx: IContext,
+    txn: T,
+    messages: readonly OutboxMessageInit[]
+  ): Promise<void>;
+
+  /**
+   * List up to `limit` committed messages which have not yet
+   * been acknowledged, oldest first
+   */
+  fetch(ctx: IContext, limit: number): Promise<OutboxMessage[]>;
+
+  /** Remove or mark delivered the messages with the given ids */
+  ack(ctx: IContext, ids: readonly string[]): Promise<void>;
+}
+
+/** Delivers a single message from an outbox, such as to a broker */
+export type OutboxDispatch = (
+  ctx: IContext,
+  msg: OutboxMessage
+) => Promise<unknown> | unknown;
+
+/** Options for an {@link OutboxRelay} */
+export interface OutboxRelayOptions {
+  /** The number of messages to fetch at a time. Defaults to 100 */
+  readonly batchSize?: number;
+}
+
+/** Drains an {@link OutboxStore}, delivering each message at least once */
+export interface OutboxRelay {
+  /**
+   * Dispatch and acknowledge messages, oldest first, until there
+   * are none left or the context is canceled. If a dispatch fails,
+   * draining stops and the promise rejects with its error, leaving
+   * the message to be retried by a later drain. Resolves to the
+   * number of messages delivered.
+   */
+  drain(ctx: IContext): Promise<number>;
+}
+
+/** The saved result of a run with an idempotency key */
+export interface IdempotencyRecord {
+  /** The value the callback resolved to */
+  readonly result: unknown;
+}
+
+/**
+ * Records the results of runs with an idempotency key, usually
+ * in a table in the same database as the transaction. Keys and
+ * results must only become visible to other transactions once
+ * the transaction which saved them commits.
+ */
+export interface IdempotencyStore {
+  /**
+   * Look up a key within the transaction. Resolves to the
+   * record saved by a committed run, or to null.
+   */
+  get(ctx: IContext, txn: Txn, key: string): Promise<Maybe<IdempotencyRecord>>;
+
+  /**
+   * Save the result for a key within the transaction. Must
+   * reject if the key is already saved, including by another
+   * transaction which has not yet committed.
+   */
+  put(ctx: IContext, txn: Txn, key: string, result: unknown): Promise<void>;
+}
+
+/** Provides a fresh store and transaction source for each contract case */
+export interface IdempotencyStoreHarness<T extends Txn> {
+  /** A context with a transactable for `runner` */
+  readonly ctx: IContext;
+
+  /** The store to verify */
+  readonly store: IdempotencyStore;
+
+  /** A runner configured with `store` as its `idempotencyStore` */
+  readonly runner: TxnRunner<T>;
+}
+
+/** A single case of the {@link IdempotencyStore} contract */
+export interface IdempotencyContractCase {
+  readonly name: string;
+
+  /** Resolves if the store passes, and rejects otherwise */
+  run(): Promise<void>;
 }
@@ -0,0 +1,42 @@
+// Copyright 2022 Joshua Honig. All rights reserved.
+// Use of this source code is governed by a MIT
+// license that can be found in the LICENSE file.
+
+import { createTxnAccessor, txn } from '$';
+import { Context } from '@sabl/context';
+import { openStackPool, StackPool, StackTxn } from './fixtures';
+
+describe('createTxnAccessor', () => {
+  const Stack = createTxnAccessor<StackPool, StackTxn>('Stack');
+
+  it('sets and gets the connection', () => {
+    const pool = openStackPool([]);
+    const ctx = Context.value(Stack.withConn, pool);
+
+    expect(Stack.getConn(ctx)).toBe(pool);
+    expect(Stack.getTransactable(ctx)).toBe(pool);
+    expect(Stack.getTxn(ctx)).toBeNull();
+    expect(Stack.getApi(ctx)).toBe(pool);
+  });
+
+  it('works with txn()', async () => {
+    const stack: unknown[] = [];
+    const ctxRoot = Context.value(Stack.withConn, openStackPool(stack));
+
+    await txn(Stack).run(ctxRoot, async (ctx, txn) => {
+      expect(Stack.getTxn(ctx)).toBe(txn);
+      expect(Stack.getApi(ctx)).toBe(txn);
+      await Stack.getApi(ctx)?.push(ctx, 'a');
+    });
+
+    expect(stack).toEqual(['a']);
+  });
+
+  it('uses separate keys for each accessor', () => {
+    const Other = createTxnAccessor<StackPool, StackTxn>('Stack');
+    const ctx = Context.value(Stack.withConn, openStackPool([]));
+
+    expect(Other.getConn(ctx)).toBeNull();
+    expect(Other.getApi(ctx)).toBeNull();
+  });
+});
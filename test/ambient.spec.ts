@@ -0,0 +1,133 @@
+// Copyright 2022 Joshua Honig. All rights reserved.
+// Use of this source code is governed by a MIT
+// license that can be found in the LICENSE file.
+
+import { MissingCallbackError, Propagation, txn, TxnRequiredError } from '$';
+import { ambientTxn, ambientTxnAccessor } from '$/ambient';
+import { Context } from '@sabl/context';
+import {
+  openStackPool,
+  StackCtxAccessor,
+  StackTxn,
+  withStackConn,
+} from './fixtures';
+
+const AmbientStack = ambientTxnAccessor(StackCtxAccessor);
+
+/** Legacy code which cannot take a context */
+async function legacyPush(value: unknown): Promise<void> {
+  await new Promise((resolve) => setTimeout(resolve, 1));
+  await AmbientStack.require().push(Context.background, value);
+}
+
+describe('ambientTxn', () => {
+  const runner = ambientTxn(AmbientStack);
+
+  it('provides the transaction without a context', async () => {
+    const stack: unknown[] = [];
+    const ctxRoot = Context.value(withStackConn, openStackPool(stack));
+
+    expect(AmbientStack.current()).toBeUndefined();
+
+    await runner.run(ctxRoot, async (ctx, txn) => {
+      expect(AmbientStack.current()).toBe(txn);
+      expect(StackCtxAccessor.getTxn(ctx)).toBe(txn);
+      await legacyPush('a');
+      expect(stack).toEqual([]);
+    });
+
+    expect(AmbientStack.current()).toBeUndefined();
+    expect(stack).toEqual(['a']);
+  });
+
+  it('joins or nests the ambient transaction', async () => {
+    const stack: unknown[] = [];
+    const ctxRoot = Context.value(
+      withStackConn,
+      openStackPool(stack, { savepoints: true })
+    );
+
+    await runner.run(ctxRoot, async (_, outer) => {
+      // Context with no transaction on it
+      await runner.in(ctxRoot, (_, inner) => {
+        expect(inner).toBe(outer);
+      });
+
+      await expect(
+        runner.run(ctxRoot, async (ctx, nested) => {
+          await nested.push(ctx, 'nested');
+          expect(AmbientStack.current()).toBe(nested);
+          expect(AmbientStack.getTxn(ctx)).toBe(nested);
+          throw new Error('Nested rollback');
+        })
+      ).rejects.toThrow('Nested rollback');
+      expect(stack).toEqual([]);
+
+      // Other runners with the ambient accessor
+      await txn(AmbientStack).in(ctxRoot, (_, inner) => {
+        expect(inner).toBe(outer);
+      });
+
+      expect(AmbientStack.current()).toBe(outer);
+    });
+  });
+
+  it('keeps concurrent runs separate', async () => {
+    const pool = openStackPool([]);
+    const ctxRoot = Context.value(withStackConn, pool);
+    const seen: [StackTxn, unknown][] = [];
+
+    const check = async (_: unknown, txn: StackTxn) => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      seen.push([txn, AmbientStack.current()]);
+    };
+    await Promise.all([runner.run(ctxRoot, check), runner.run(ctxRoot, check)]);
+
+    expect(seen[0][0]).not.toBe(seen[1][0]);
+    for (const [txn, current] of seen) {
+      expect(current).toBe(txn);
+    }
+  });
+
+  it('passes options to the runner', async () => {
+    const ctxRoot = Context.value(withStackConn, openStackPool([]));
+
+    await runner.run(
+      ctxRoot,
+      { propagation: Propagation.never },
+      (ctx, txn) => {
+        expect(txn).toBeUndefined();
+        expect(AmbientStack.current()).toBeUndefined();
+      }
+    );
+
+    await expect(
+      runner.in(ctxRoot, { propagation: Propagation.mandatory }, () => null)
+    ).rejects.toBeInstanceOf(TxnRequiredError);
+  });
+
+  it('rejects a missing callback', async () => {
+    const ctxRoot = Context.value(withStackConn, openStackPool([]));
+    const untyped = <(ctx: unknown, opts: unknown) => Promise<unknown>>(
+      runner.run.bind(runner)
+    );
+
+    await expect(untyped(ctxRoot, {})).rejects.toBeInstanceOf(
+      MissingCallbackError
+    );
+  });
+
+  it('delegates the transactable and setter', () => {
+    const pool = openStackPool([]);
+    const ctx = Context.value(withStackConn, pool);
+    expect(AmbientStack.getTransactable(ctx)).toBe(pool);
+
+    const txn = <StackTxn>(<unknown>{});
+    const ctxTxn = AmbientStack.withTxn(ctx, txn);
+    expect(StackCtxAccessor.getTxn(ctxTxn)).toBe(txn);
+  });
+
+  it('requires an ambient transaction', () => {
+    expect(() => AmbientStack.require()).toThrow(TxnRequiredError);
+  });
+});
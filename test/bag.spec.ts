@@ -0,0 +1,198 @@
+// Copyright 2022 Joshua Honig. All rights reserved.
+// Use of this source code is governed by a MIT
+// license that can be found in the LICENSE file.
+
+import {
+  afterCommit,
+  changeSet,
+  txn,
+  TxnBag,
+  txnBag,
+  TxnCompletedError,
+  TxnRequiredError,
+} from '$';
+import { Context, IContext } from '@sabl/context';
+import { openStackPool, StackCtxAccessor, withStackConn } from './fixtures';
+
+describe('txnBag', () => {
+  const txnRunner = txn(StackCtxAccessor);
+
+  it('holds values for the transaction', async () => {
+    const ctxRoot = Context.value(withStackConn, openStackPool([]));
+
+    await txnRunner.run(ctxRoot, (ctx) => {
+      const bag = txnBag(ctx);
+      expect(bag.has('a')).toBe(false);
+      expect(bag.get('a')).toBeUndefined();
+
+      bag.set('a', 1);
+      expect(bag.has('a')).toBe(true);
+      expect(bag.get<number>('a')).toBe(1);
+
+      expect(bag.delete('a')).toBe(true);
+      expect(bag.delete('a')).toBe(false);
+      expect(bag.has('a')).toBe(false);
+
+      const dirty = bag.getOrAdd('dirty', () => new Set<string>());
+      dirty.add('order 1');
+      expect(bag.getOrAdd('dirty', () => new Set<string>())).toBe(dirty);
+    });
+  });
+
+  it('shares the bag with joined callbacks', async () => {
+    const ctxRoot = Context.value(withStackConn, openStackPool([]));
+
+    await txnRunner.run(ctxRoot, async (ctxOuter) => {
+      txnBag(ctxOuter).set('a', 1);
+      await txnRunner.in(ctxOuter, (ctx) => {
+        expect(txnBag(ctx)).toBe(txnBag(ctxOuter));
+        txnBag(ctx).set('b', 2);
+      });
+      expect(txnBag(ctxOuter).get('b')).toBe(2);
+    });
+  });
+
+  it('separates independent transactions', async () => {
+    const ctxRoot = Context.value(withStackConn, openStackPool([]));
+
+    await txnRunner.run(ctxRoot, (ctx) => txnBag(ctx).set('a', 1));
+    await txnRunner.run(ctxRoot, (ctx) => {
+      expect(txnBag(ctx).has('a')).toBe(false);
+    });
+  });
+
+  it('merges committed nested transactions', async () => {
+    const ctxRoot = Context.value(
+      withStackConn,
+      openStackPool([], { savepoints: true })
+    );
+
+    await txnRunner.run(ctxRoot, async (ctxOuter) => {
+      const outer = txnBag(ctxOuter);
+      outer.set('a', 1);
+      outer.set('b', 2);
+
+      let ctxNested: IContext = ctxOuter;
+      await txnRunner.run(ctxOuter, (ctx) => {
+        ctxNested = ctx;
+        const inner = txnBag(ctx);
+        expect(inner).not.toBe(outer);
+        expect(inner.get('a')).toBe(1);
+
+        inner.set('a', 10);
+        expect(inner.delete('b')).toBe(true);
+        expect(inner.has('b')).toBe(false);
+        expect(inner.get('b')).toBeUndefined();
+
+        // Not visible to parent until committed
+        expect(outer.get('a')).toBe(1);
+        expect(outer.has('b')).toBe(true);
+      });
+
+      expect(outer.get('a')).toBe(10);
+      expect(outer.has('b')).toBe(false);
+
+      // Forwarded to parent after merge
+      const inner = txnBag(ctxNested);
+      inner.set('c', 3);
+      expect(inner.get('c')).toBe(3);
+      expect(inner.has('c')).toBe(true);
+      expect(inner.delete('c')).toBe(true);
+      expect(outer.has('c')).toBe(false);
+    });
+  });
+
+  it('discards rolled back nested transactions', async () => {
+    const ctxRoot = Context.value(
+      withStackConn,
+      openStackPool([], { savepoints: true })
+    );
+
+    await txnRunner.run(ctxRoot, async (ctxOuter) => {
+      txnBag(ctxOuter).set('a', 1);
+
+      await expect(
+        txnRunner.run(ctxOuter, (ctx) => {
+          txnBag(ctx).set('a', 10);
+          txnBag(ctx).set('b', 2);
+          throw new Error('Failing on purpose');
+        })
+      ).rejects.toThrow('Failing on purpose');
+
+      expect(txnBag(ctxOuter).get('a')).toBe(1);
+      expect(txnBag(ctxOuter).has('b')).toBe(false);
+    });
+  });
+
+  it('is available to commit hooks and callbacks', async () => {
+    const published: unknown[] = [];
+    const runner = txn(StackCtxAccessor, {
+      hooks: [
+        {
+          beforeBegin(evt) {
+            expect(evt.bag).toBeUndefined();
+          },
+          afterCommit(evt) {
+            published.push(
+              ...((<TxnBag>evt.bag).get<string[]>('events') || [])
+            );
+          },
+        },
+      ],
+    });
+    const ctxRoot = Context.value(withStackConn, openStackPool([]));
+
+    let bag: TxnBag | undefined;
+    await runner.run(ctxRoot, (ctx) => {
+      bag = txnBag(ctx);
+      bag.getOrAdd('events', () => <string[]>[]).push('OrderPlaced');
+      afterCommit(ctx, () => published.push(bag?.get('events')));
+    });
+
+    expect(published).toEqual(['OrderPlaced', ['OrderPlaced']]);
+  });
+
+  it('is cleared on completion', async () => {
+    const ctxRoot = Context.value(withStackConn, openStackPool([]));
+
+    let committed: TxnBag | undefined;
+    await txnRunner.run(ctxRoot, (ctx) => {
+      committed = txnBag(ctx);
+      committed.set('a', 1);
+    });
+    expect(committed?.has('a')).toBe(false);
+    expect(() => committed?.set('a', 1)).toThrow(TxnCompletedError);
+    expect(() => committed?.delete('a')).toThrow(TxnCompletedError);
+
+    let rolledBack: TxnBag | undefined;
+    await expect(
+      changeSet().run(ctxRoot, (ctx) => {
+        rolledBack = txnBag(ctx);
+        rolledBack.set('a', 1);
+        throw new Error('Failing on purpose');
+      })
+    ).rejects.toThrow('Failing on purpose');
+    expect(rolledBack?.get('a')).toBeUndefined();
+  });
+
+  it('is cleared if a commit callback fails', async () => {
+    const ctxRoot = Context.value(withStackConn, openStackPool([]));
+
+    let bag: TxnBag | undefined;
+    await expect(
+      txnRunner.run(ctxRoot, (ctx) => {
+        bag = txnBag(ctx);
+        bag.set('a', 1);
+        afterCommit(ctx, () => {
+          throw new Error('Mail server down');
+        });
+      })
+    ).rejects.toThrow('Mail server down');
+
+    expect(bag?.has('a')).toBe(false);
+  });
+
+  it('requires a transaction', () => {
+    expect(() => txnBag(Context.background)).toThrow(TxnRequiredError);
+  });
+});
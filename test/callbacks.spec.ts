@@ -0,0 +1,186 @@
+// Copyright 2022 Joshua Honig. All rights reserved.
+// Use of this source code is governed by a MIT
+// license that can be found in the LICENSE file.
+
+import {
+  afterCommit,
+  afterRollback,
+  changeSet,
+  Propagation,
+  txn,
+  TxnCompletedError,
+  TxnRequiredError,
+} from '$';
+import { Context, IContext } from '@sabl/context';
+import { openStackPool, StackCtxAccessor, withStackConn } from './fixtures';
+
+describe('afterCommit / afterRollback', () => {
+  const txnRunner = txn(StackCtxAccessor);
+
+  it('runs commit callbacks after commit', async () => {
+    const stack: unknown[] = [];
+    const ctxRoot = Context.value(withStackConn, openStackPool(stack));
+    const log: string[] = [];
+
+    await txnRunner.run(ctxRoot, async (ctx, txn) => {
+      afterCommit(ctx, () => log.push('sent ' + stack.join()));
+      afterRollback(ctx, () => log.push('rolled back'));
+      await txn.push(ctx, 'a');
+      expect(log).toEqual([]);
+    });
+
+    expect(log).toEqual(['sent a']);
+  });
+
+  it('runs rollback callbacks after rollback', async () => {
+    const ctxRoot = Context.value(withStackConn, openStackPool([]));
+    const log: string[] = [];
+
+    await expect(
+      txnRunner.run(ctxRoot, (ctx) => {
+        afterCommit(ctx, () => log.push('sent'));
+        afterRollback(ctx, () => log.push('rolled back'));
+        throw new Error('Failing on purpose');
+      })
+    ).rejects.toThrow('Failing on purpose');
+
+    expect(log).toEqual(['rolled back']);
+  });
+
+  it('attaches joined callbacks to outermost transaction', async () => {
+    const ctxRoot = Context.value(withStackConn, openStackPool([]));
+    const log: string[] = [];
+
+    await txnRunner.run(ctxRoot, async (ctxOuter) => {
+      afterCommit(ctxOuter, () => log.push('a'));
+      await txnRunner.in(ctxOuter, (ctxInner) => {
+        afterCommit(ctxInner, () => log.push('b'));
+      });
+      afterCommit(ctxOuter, () => log.push('c'));
+      expect(log).toEqual([]);
+    });
+
+    expect(log).toEqual(['a', 'b', 'c']);
+  });
+
+  it('defers nested callbacks to outermost transaction', async () => {
+    const ctxRoot = Context.value(
+      withStackConn,
+      openStackPool([], { savepoints: true })
+    );
+    const log: string[] = [];
+
+    await txnRunner.run(ctxRoot, async (ctxOuter) => {
+      afterCommit(ctxOuter, () => log.push('a'));
+
+      let ctxNested = ctxOuter;
+      await txnRunner.run(ctxOuter, async (ctx) => {
+        ctxNested = ctx;
+        afterCommit(ctx, () => log.push('b'));
+
+        // Registered on the outer transaction before
+        // the nested transaction commits
+        afterCommit(ctxOuter, () => log.push('c'));
+      });
+      afterCommit(ctxNested, () => log.push('d'));
+
+      // Nested transaction rolled back
+      await expect(
+        txnRunner.run(ctxOuter, (ctx) => {
+          afterCommit(ctx, () => log.push('not sent'));
+          afterRollback(ctx, () => log.push('nested rolled back'));
+          throw new Error('Failing on purpose');
+        })
+      ).rejects.toThrow('Failing on purpose');
+
+      expect(log).toEqual(['nested rolled back']);
+    });
+
+    expect(log).toEqual(['nested rolled back', 'a', 'b', 'c', 'd']);
+  });
+
+  it('runs requiresNew callbacks independently', async () => {
+    const ctxRoot = Context.value(withStackConn, openStackPool([]));
+    const log: string[] = [];
+
+    await txnRunner.run(ctxRoot, async (ctxOuter) => {
+      await txnRunner.run(
+        ctxOuter,
+        { propagation: Propagation.requiresNew },
+        (ctx) => {
+          afterCommit(ctx, () => log.push('inner'));
+        }
+      );
+      expect(log).toEqual(['inner']);
+    });
+  });
+
+  it('works with change sets', async () => {
+    const log: string[] = [];
+
+    await changeSet().run(Context.background, (ctx, cs) => {
+      cs.defer(() => log.push('deferred'));
+      afterCommit(ctx, () => log.push('after'));
+    });
+
+    expect(log).toEqual(['deferred', 'after']);
+  });
+
+  it('rejects with commit callback error', async () => {
+    const stack: unknown[] = [];
+    const ctxRoot = Context.value(withStackConn, openStackPool(stack));
+    const log: string[] = [];
+
+    await expect(
+      txnRunner.run(ctxRoot, async (ctx, txn) => {
+        await txn.push(ctx, 'a');
+        afterCommit(ctx, () => {
+          throw new Error('Mail server down');
+        });
+        afterCommit(ctx, () => log.push('skipped'));
+        afterRollback(ctx, () => log.push('rolled back'));
+      })
+    ).rejects.toThrow('Mail server down');
+
+    // Still committed
+    expect(stack).toEqual(['a']);
+    expect(log).toEqual([]);
+  });
+
+  it('ignores rollback callback errors', async () => {
+    const ctxRoot = Context.value(withStackConn, openStackPool([]));
+    const log: string[] = [];
+
+    await expect(
+      txnRunner.run(ctxRoot, (ctx) => {
+        afterRollback(ctx, () => {
+          throw new Error('Cleanup failed');
+        });
+        afterRollback(ctx, () => log.push('rolled back'));
+        throw new Error('Failing on purpose');
+      })
+    ).rejects.toThrow('Failing on purpose');
+
+    expect(log).toEqual(['rolled back']);
+  });
+
+  it('rejects callbacks after transaction completes', async () => {
+    const ctxRoot = Context.value(withStackConn, openStackPool([]));
+
+    let ctxTxn: IContext = ctxRoot;
+    await txnRunner.run(ctxRoot, (ctx) => {
+      ctxTxn = ctx;
+    });
+
+    expect(() => afterCommit(ctxTxn, () => null)).toThrow(TxnCompletedError);
+  });
+
+  it('requires a transaction', () => {
+    expect(() => afterCommit(Context.background, () => null)).toThrow(
+      TxnRequiredError
+    );
+    expect(() => afterRollback(Context.background, () => null)).toThrow(
+      TxnRequiredError
+    );
+  });
+});
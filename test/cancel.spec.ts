@@ -0,0 +1,226 @@
+// Copyright 2022 Joshua Honig. All rights reserved.
+// Use of this source code is governed by a MIT
+// license that can be found in the LICENSE file.
+
+import { txn, TxnCanceledError, TxnFailedError } from '$';
+import { catchErr } from '$test/lib/util';
+import { Context, IContext } from '@sabl/context';
+import { openStackPool, StackCtxAccessor, withStackConn } from './fixtures';
+
+/** Resolve when the context is canceled, as a well-behaved callback would */
+function whenCanceled(ctx: IContext): Promise<void> {
+  return new Promise((resolve) => ctx.canceler?.onCancel(resolve));
+}
+
+describe('cancellation', () => {
+  const txnRunner = txn(StackCtxAccessor);
+
+  it('does not begin if already canceled', async () => {
+    const pool = openStackPool([]);
+    const [ctxCancel, cancel] = Context.cancel();
+    const ctxRoot = ctxCancel.withValue(withStackConn, pool);
+    cancel();
+
+    let began = false;
+    const beginTxn = pool.beginTxn.bind(pool);
+    pool.beginTxn = (ctx, opts) => {
+      began = true;
+      return beginTxn(ctx, opts);
+    };
+
+    const err = await catchErr<TxnCanceledError>(
+      txnRunner.run(ctxRoot, () => null)
+    );
+
+    expect(err).toBeInstanceOf(TxnCanceledError);
+    expect(err.code).toBe('TXN_CANCELED');
+    expect(err.phase).toBe('begin');
+    expect(began).toBe(false);
+  });
+
+  it('rolls back when canceled during callback', async () => {
+    const stack: unknown[] = ['a', 'b'];
+    const pool = openStackPool(stack);
+    const [ctxCancel, cancel] = Context.cancel();
+    const ctxRoot = ctxCancel.withValue(withStackConn, pool);
+
+    const err = await catchErr<TxnCanceledError>(
+      txnRunner.run(ctxRoot, async (ctx, txn) => {
+        await txn.push(ctx, 'c');
+        setTimeout(cancel, 1);
+        await whenCanceled(ctx);
+      })
+    );
+
+    expect(err.code).toBe('TXN_CANCELED');
+    expect(err.phase).toBe('callback');
+    expect(err.rollbackError).toBeUndefined();
+    expect(stack).toEqual(['a', 'b']);
+  });
+
+  it('rolls back when callback cancels synchronously', async () => {
+    const pool = openStackPool([]);
+    const [ctxCancel, cancel] = Context.cancel();
+    const ctxRoot = ctxCancel.withValue(withStackConn, pool);
+
+    const err = await catchErr<TxnCanceledError>(
+      txnRunner.run(ctxRoot, () => {
+        cancel();
+        throw new Error('Abandoned');
+      })
+    );
+
+    expect(err.code).toBe('TXN_CANCELED');
+    expect(err.phase).toBe('callback');
+  });
+
+  it('reports the callback error that preceded cancellation', async () => {
+    const pool = openStackPool([]);
+    const [ctxCancel, cancel] = Context.cancel();
+    const ctxRoot = ctxCancel.withValue(withStackConn, pool);
+    const abortErr = new Error('Query aborted');
+
+    // Context is canceled while the failed transaction is rolled back
+    const txnPool = pool.beginTxn.bind(pool);
+    pool.beginTxn = async (ctx, opts) => {
+      const txn = await txnPool(ctx, opts);
+      const rollback = txn.rollback.bind(txn);
+      txn.rollback = () => {
+        cancel();
+        return rollback();
+      };
+      return txn;
+    };
+
+    const err = await catchErr<TxnCanceledError>(
+      txnRunner.run(ctxRoot, () => {
+        throw abortErr;
+      })
+    );
+
+    expect(err.code).toBe('TXN_CANCELED');
+    expect(err.cause).toBe(abortErr);
+  });
+
+  it('waits for the callback before rolling back', async () => {
+    const stack: unknown[] = ['a'];
+    const pool = openStackPool(stack);
+    const [ctxCancel, cancel] = Context.cancel();
+    const ctxRoot = ctxCancel.withValue(withStackConn, pool);
+    const log: string[] = [];
+
+    const txnPool = pool.beginTxn.bind(pool);
+    pool.beginTxn = async (ctx, opts) => {
+      const txn = await txnPool(ctx, opts);
+      const rollback = txn.rollback.bind(txn);
+      txn.rollback = () => {
+        log.push('rollback');
+        return rollback();
+      };
+      return txn;
+    };
+
+    const err = await catchErr<TxnCanceledError>(
+      txnRunner.run(ctxRoot, async (ctx, txn) => {
+        setTimeout(cancel, 1);
+        await whenCanceled(ctx);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        await txn.push(ctx, 'late');
+        log.push('callback done');
+      })
+    );
+
+    expect(err.code).toBe('TXN_CANCELED');
+    expect(err.phase).toBe('callback');
+    expect(log).toEqual(['callback done', 'rollback']);
+    expect(stack).toEqual(['a']);
+  });
+
+  it('does not commit if canceled before commit', async () => {
+    const stack: unknown[] = ['a', 'b'];
+    const [ctxCancel, cancel] = Context.cancel();
+    const ctxRoot = ctxCancel.withValue(withStackConn, openStackPool(stack));
+    const runner = txn(StackCtxAccessor, {
+      hooks: [{ beforeCommit: () => cancel() }],
+    });
+
+    const err = await catchErr<TxnCanceledError>(
+      runner.run(ctxRoot, async (ctx, txn) => {
+        await txn.push(ctx, 'c');
+      })
+    );
+
+    expect(err.code).toBe('TXN_CANCELED');
+    expect(err.phase).toBe('commit');
+    expect(stack).toEqual(['a', 'b']);
+  });
+
+  it('reports rollback failure after cancellation', async () => {
+    const pool = openStackPool([]);
+    const [ctxCancel, cancel] = Context.cancel();
+    const ctxRoot = ctxCancel.withValue(withStackConn, pool);
+
+    const err = await catchErr<TxnCanceledError>(
+      txnRunner.run(ctxRoot, async (_, txn) => {
+        await txn.rollback();
+        cancel();
+      })
+    );
+
+    expect(err.code).toBe('TXN_CANCELED');
+    expect(err.message).toBe(
+      'Transaction canceled; rollback also failed: ' +
+        'Error: Transaction is already complete'
+    );
+  });
+
+  describe('timeoutMs', () => {
+    it('commits within timeout', async () => {
+      const stack: unknown[] = ['a', 'b'];
+      const pool = openStackPool(stack);
+      const ctxRoot = Context.value(withStackConn, pool);
+
+      await txnRunner.run(ctxRoot, { timeoutMs: 1000 }, async (ctx, txn) => {
+        expect(ctx.canceler).not.toBeNull();
+        await txn.push(ctx, 'c');
+      });
+
+      expect(stack).toEqual(['a', 'b', 'c']);
+    });
+
+    it('rolls back when timeout elapses', async () => {
+      const stack: unknown[] = ['a', 'b'];
+      const pool = openStackPool(stack);
+      const ctxRoot = Context.value(withStackConn, pool);
+
+      let txnCtxCanceled = false;
+      const err = await catchErr<TxnCanceledError>(
+        txnRunner.run(ctxRoot, { timeoutMs: 5 }, async (ctx, txn) => {
+          ctx.canceler?.onCancel(() => (txnCtxCanceled = true));
+          await txn.push(ctx, 'c');
+          await whenCanceled(ctx);
+        })
+      );
+
+      expect(err).toBeInstanceOf(TxnCanceledError);
+      expect(err.code).toBe('TXN_TIMEOUT');
+      expect(err.message).toBe('Transaction timed out');
+      expect(txnCtxCanceled).toBe(true);
+      expect(stack).toEqual(['a', 'b']);
+    });
+
+    it('does not cancel parent context', async () => {
+      const pool = openStackPool([]);
+      const [ctxCancel] = Context.cancel();
+      const ctxRoot = ctxCancel.withValue(withStackConn, pool);
+
+      await expect(
+        txnRunner.run(ctxRoot, { timeoutMs: 1 }, () => {
+          throw new Error('Failing on purpose');
+        })
+      ).rejects.toBeInstanceOf(TxnFailedError);
+
+      expect(ctxRoot.canceler?.canceled).toBe(false);
+    });
+  });
+});
@@ -2,7 +2,17 @@
 // Use of this source code is governed by a MIT
 // license that can be found in the LICENSE file.
 
-import { ChangeSet, changeSet, Txn } from '$';
+import {
+  ChangeSet,
+  changeSet,
+  ChangeSetState,
+  RollbackFailedError,
+  RollbackOrder,
+  Txn,
+  TxnFailedError,
+  TxnInProgressError,
+} from '$';
+import { catchErr, PromiseHandle } from '$test/lib/util';
 import { Context, IContext } from '@sabl/context';
 
 type RunCallback<T extends Txn> = (
@@ -27,6 +37,25 @@ function changeSetTests(fnRunTxn: RunCallback<ChangeSet>): void {
     expect(stack).toEqual(['a', 'b', 'c']);
   });
 
+  it('resolves to the callback result', async () => {
+    const stack: string[] = [];
+
+    const run = <
+      (
+        ctx: IContext,
+        fn: (ctx: IContext, cs: ChangeSet) => string
+      ) => Promise<string>
+    >(<unknown>fnRunTxn);
+
+    const result = await run(Context.background, (_, cs) => {
+      cs.defer(() => stack.push('a'));
+      return 'done';
+    });
+
+    expect(result).toBe('done');
+    expect(stack).toEqual(['a']);
+  });
+
   it('does not execute any if rolled back', async () => {
     const stack: string[] = [];
     const failMsgs: string[] = [];
@@ -227,11 +256,398 @@ function changeSetTests(fnRunTxn: RunCallback<ChangeSet>): void {
       'Spliced out c',
     ]);
   });
+
+  it('runs parallel groups concurrently between deferred callbacks', async () => {
+    const log: string[] = [];
+    const gate = new PromiseHandle<void>();
+
+    await fnRunTxn(Context.background, (_, cs) => {
+      cs.defer(() => log.push('a'));
+      cs.deferParallel('cache', async () => {
+        log.push('cache 1 start');
+        await gate.promise;
+        log.push('cache 1 end');
+      });
+      cs.defer(() => log.push('b'));
+      cs.deferParallel('cache', () => {
+        log.push('cache 2');
+        gate.resolve();
+      });
+    });
+
+    expect(log).toEqual(['a', 'cache 1 start', 'cache 2', 'cache 1 end', 'b']);
+  });
+
+  it('rolls back when a parallel callback fails', async () => {
+    const log: string[] = [];
+
+    await expect(() =>
+      fnRunTxn(Context.background, (_, cs) => {
+        cs.deferParallel('hooks', async () => {
+          await Promise.resolve();
+          log.push('posted 1');
+        });
+        cs.deferParallel('hooks', () => {
+          throw new Error('Webhook failed');
+        });
+        cs.defer(() => log.push('not run'));
+        cs.deferFail(() => log.push('failed'));
+      })
+    ).rejects.toThrow('Webhook failed');
+
+    // Running callbacks settle before rollback
+    expect(log).toEqual(['posted 1', 'failed']);
+  });
+
+  it('runs steps in order with deferred callbacks', async () => {
+    const log: string[] = [];
+
+    await fnRunTxn(Context.background, (_, cs) => {
+      cs.defer(() => log.push('a'));
+      cs.step(
+        () => log.push('b'),
+        () => log.push('undo b')
+      );
+      cs.defer(() => log.push('c'));
+    });
+
+    expect(log).toEqual(['a', 'b', 'c']);
+  });
+
+  it('compensates only completed steps in reverse order', async () => {
+    const log: string[] = [];
+
+    await expect(() =>
+      fnRunTxn(Context.background, (_, cs) => {
+        cs.step(
+          () => log.push('reserve stock'),
+          () => log.push('release stock')
+        );
+        cs.step(
+          () => log.push('charge card'),
+          () => log.push('refund card')
+        );
+        cs.step(
+          () => {
+            throw new Error('Shipping unavailable');
+          },
+          () => log.push('cancel shipment')
+        );
+        cs.step(
+          () => log.push('send receipt'),
+          () => log.push('retract receipt')
+        );
+        cs.deferFail(() => log.push('notify failure'));
+      })
+    ).rejects.toThrow('Shipping unavailable');
+
+    expect(log).toEqual([
+      'reserve stock',
+      'charge card',
+      'refund card',
+      'release stock',
+      'notify failure',
+    ]);
+  });
+
+  it('does not compensate steps if rolled back before commit', async () => {
+    const log: string[] = [];
+
+    await expect(() =>
+      fnRunTxn(Context.background, (_, cs) => {
+        cs.step(
+          () => log.push('a'),
+          () => log.push('undo a')
+        );
+        throw new Error('Rolling back on purpose');
+      })
+    ).rejects.toThrow('Rolling back on purpose');
+
+    expect(log).toEqual([]);
+  });
+
+  it('provides context to step callbacks', async () => {
+    const ctxKey = Symbol('log');
+    const log: string[] = [];
+    const ctxRoot = Context.background.withValue(ctxKey, log);
+    const getLog = (ctx: IContext) => <string[]>ctx.value(ctxKey);
+
+    await expect(() =>
+      fnRunTxn(ctxRoot, (_, cs) => {
+        cs.step(
+          (ctx) => getLog(ctx).push('a'),
+          (ctx) => getLog(ctx).push('undo a')
+        );
+        cs.defer(() => {
+          throw new Error('Failing on purpose');
+        });
+      })
+    ).rejects.toThrow('Failing on purpose');
+
+    expect(log).toEqual(['a', 'undo a']);
+  });
 }
 
 describe('changeSet', () => {
   const csRunner = changeSet();
 
+  describe('re-entrancy', () => {
+    it('rejects deferring from a commit callback', async () => {
+      const log: string[] = [];
+
+      const err = await catchErr<TxnFailedError>(
+        csRunner.run(Context.background, (_, cs) => {
+          cs.defer(() => cs.defer(() => log.push('nested')));
+          cs.deferFail(() => log.push('failed'));
+        })
+      );
+
+      const cause = err.cause;
+      expect(cause).toBeInstanceOf(TxnInProgressError);
+      expect((<TxnInProgressError>cause).code).toBe('TXN_IN_PROGRESS');
+      expect(log).toEqual(['failed']);
+    });
+
+    it('rejects deferring from a rollback callback', async () => {
+      const err = await catchErr<TxnFailedError>(
+        csRunner.run(Context.background, (_, cs) => {
+          cs.deferFail(() => cs.deferFail(() => null));
+          throw new Error('Failing on purpose');
+        })
+      );
+
+      const rbErr = <RollbackFailedError>err.rollbackError;
+      expect(rbErr.errors[0]).toBeInstanceOf(TxnInProgressError);
+    });
+
+    it('rejects committing from a commit callback', async () => {
+      await expect(
+        csRunner.run(Context.background, (_, cs) => {
+          cs.defer(() => cs.commit());
+        })
+      ).rejects.toThrow('cannot be modified by its own callbacks');
+    });
+  });
+
+  describe('introspection', () => {
+    it('reports state through commit', async () => {
+      const states: ChangeSetState[] = [];
+      let csRef: ChangeSet | undefined;
+
+      await csRunner.run(Context.background, (_, cs) => {
+        csRef = cs;
+        states.push(cs.state);
+        cs.defer(() => states.push(cs.state));
+      });
+
+      states.push((<ChangeSet>csRef).state);
+      expect(states).toEqual([
+        ChangeSetState.open,
+        ChangeSetState.committing,
+        ChangeSetState.committed,
+      ]);
+    });
+
+    it('reports state through rollback', async () => {
+      const states: ChangeSetState[] = [];
+      let csRef: ChangeSet | undefined;
+
+      await expect(
+        csRunner.run(Context.background, (_, cs) => {
+          csRef = cs;
+          cs.defer(() => {
+            throw new Error('Failing on purpose');
+          });
+          cs.deferFail(() => states.push(cs.state));
+        })
+      ).rejects.toThrow('Failing on purpose');
+
+      states.push((<ChangeSet>csRef).state);
+      expect(states).toEqual([
+        ChangeSetState.rollingBack,
+        ChangeSetState.rolledBack,
+      ]);
+    });
+
+    it('reports failed state before rollback', async () => {
+      const states: ChangeSetState[] = [];
+
+      await expect(
+        csRunner.run(Context.background, async (_, cs) => {
+          cs.defer(() => {
+            throw new Error('Failing on purpose');
+          });
+          await cs.commit().catch(() => states.push(cs.state));
+          await cs.rollback();
+          states.push(cs.state);
+        })
+      ).rejects.toThrow('Change set is already committed or rolled back');
+
+      expect(states).toEqual([
+        ChangeSetState.failed,
+        ChangeSetState.rolledBack,
+      ]);
+    });
+
+    it('lists pending callbacks with labels', async () => {
+      await csRunner.run(Context.background, async (_, cs) => {
+        cs.defer(() => {
+          expect(cs.pending()).toEqual([
+            { kind: 'deferParallel', label: 'webhook', group: 'g' },
+            { kind: 'step', label: 'charge card', group: undefined },
+            { kind: 'deferFail', label: undefined, group: undefined },
+          ]);
+          expect(cs.pendingCount('defer')).toBe(0);
+        }, 'invalidate cache');
+        cs.deferParallel('g', () => null, 'webhook');
+        cs.step(
+          () => null,
+          () => null,
+          'charge card'
+        );
+        cs.deferFail(() => null);
+
+        expect(cs.pendingCount()).toBe(4);
+        expect(cs.pendingCount('defer')).toBe(1);
+        expect(cs.pendingCount('deferFail')).toBe(1);
+        expect(cs.pending()[0]).toEqual({
+          kind: 'defer',
+          label: 'invalidate cache',
+          group: undefined,
+        });
+      });
+    });
+
+    it('has nothing pending after commit', async () => {
+      let csRef: ChangeSet | undefined;
+
+      await csRunner.run(Context.background, (_, cs) => {
+        csRef = cs;
+        cs.defer(() => null);
+        cs.deferFail(() => null);
+      });
+
+      expect((<ChangeSet>csRef).pendingCount()).toBe(0);
+    });
+
+    it('has no commit callbacks pending after a failure', async () => {
+      let csRef: ChangeSet | undefined;
+      const counts: number[] = [];
+
+      await expect(
+        csRunner.run(Context.background, (_, cs) => {
+          csRef = cs;
+          cs.defer(() => {
+            throw new Error('Failing on purpose');
+          });
+          cs.defer(() => null);
+          cs.deferParallel('g', () => null);
+          cs.deferFail(() => counts.push(cs.pendingCount()));
+        })
+      ).rejects.toThrow('Failing on purpose');
+
+      expect(counts).toEqual([0]);
+      expect((<ChangeSet>csRef).pendingCount()).toBe(0);
+    });
+  });
+
+  it('limits concurrency of parallel groups', async () => {
+    const limited = changeSet({ parallelLimit: 2 });
+    let running = 0;
+    let maxRunning = 0;
+    const log: number[] = [];
+
+    await expect(
+      limited.run(Context.background, (_, cs) => {
+        for (let i = 1; i <= 6; i++) {
+          cs.deferParallel('g', async () => {
+            maxRunning = Math.max(maxRunning, ++running);
+            await new Promise((resolve) => setTimeout(resolve, 1));
+            running--;
+            if (i == 3) {
+              throw new Error('Failing on purpose');
+            }
+            log.push(i);
+          });
+        }
+      })
+    ).rejects.toThrow('Failing on purpose');
+
+    expect(maxRunning).toBe(2);
+
+    // No more callbacks started after the failure
+    expect(log).toEqual([1, 2, 4]);
+  });
+
+  describe('rollback', () => {
+    function failWith(cs: ChangeSet, log: string[]) {
+      cs.deferFail(() => log.push('a'));
+      cs.deferFail(() => {
+        throw new Error('Cleanup b failed');
+      });
+      cs.deferFail(() => log.push('c'));
+      cs.deferFail(() => {
+        throw new Error('Cleanup d failed');
+      });
+      cs.defer(() => {
+        throw new Error('Rolling back on purpose');
+      });
+    }
+
+    it('runs every deferFail callback and aggregates errors', async () => {
+      const log: string[] = [];
+
+      const err = await catchErr<TxnFailedError>(
+        csRunner.run(Context.background, (_, cs) => failWith(cs, log))
+      );
+
+      expect(log).toEqual(['a', 'c']);
+
+      const rbErr = <RollbackFailedError>err.rollbackError;
+      expect(rbErr).toBeInstanceOf(RollbackFailedError);
+      expect(rbErr.code).toBe('TXN_ROLLBACK_FAILED');
+      expect(rbErr.errors.map((e) => (<Error>e).message)).toEqual([
+        'Cleanup b failed',
+        'Cleanup d failed',
+      ]);
+      expect(rbErr.message).toBe(
+        'Rollback failed: Error: Cleanup b failed; Error: Cleanup d failed'
+      );
+    });
+
+    it('runs deferFail callbacks in reverse order if lifo', async () => {
+      const lifoRunner = changeSet({ rollbackOrder: RollbackOrder.lifo });
+      const log: string[] = [];
+
+      await expect(
+        lifoRunner.run(Context.background, (_, cs) => {
+          cs.step(
+            () => log.push('step'),
+            () => log.push('undo step')
+          );
+          failWith(cs, log);
+        })
+      ).rejects.toBeInstanceOf(TxnFailedError);
+
+      expect(log).toEqual(['step', 'undo step', 'c', 'a']);
+    });
+
+    it('reports errors from explicit rollback', async () => {
+      const log: string[] = [];
+
+      let err: unknown;
+      await expect(
+        csRunner.run(Context.background, async (_, cs) => {
+          failWith(cs, log);
+          err = await catchErr(cs.rollback());
+        })
+      ).rejects.toThrow('Change set is already committed or rolled back');
+
+      expect(err).toBeInstanceOf(RollbackFailedError);
+      expect(log).toEqual(['a', 'c']);
+    });
+  });
+
   describe('run', () => {
     changeSetTests(csRunner.run.bind(csRunner));
 
@@ -0,0 +1,163 @@
+// Copyright 2022 Joshua Honig. All rights reserved.
+// Use of this source code is governed by a MIT
+// license that can be found in the LICENSE file.
+
+import {
+  changeSet,
+  MissingCallbackError,
+  NestedTxnUnsupportedError,
+  NoTransactableError,
+  NoTxnAccessorError,
+  txn,
+  TxnCompletedError,
+  TxnError,
+  TxnFailedError,
+} from '$';
+import { catchErr } from '$test/lib/util';
+import { Context } from '@sabl/context';
+import { openStackPool, StackCtxAccessor, withStackConn } from './fixtures';
+
+describe('TxnFailedError', () => {
+  const txnRunner = txn(StackCtxAccessor);
+
+  it('reports callback failure', async () => {
+    const pool = openStackPool([]);
+    const ctxRoot = Context.value(withStackConn, pool);
+    const cause = new Error('Business failure');
+    const opts = { readOnly: true };
+
+    const err = await catchErr<TxnFailedError>(
+      txnRunner.run(ctxRoot, opts, () => {
+        throw cause;
+      })
+    );
+
+    expect(err).toBeInstanceOf(TxnFailedError);
+    expect(err).toBeInstanceOf(TxnError);
+    expect(err.name).toBe('TxnFailedError');
+    expect(err.code).toBe('TXN_FAILED');
+    expect(err.phase).toBe('callback');
+    expect(err.cause).toBe(cause);
+    expect(err.opts).toBe(opts);
+    expect(err.rollbackError).toBeUndefined();
+  });
+
+  it('preserves the cause when rollback fails', async () => {
+    const pool = openStackPool([]);
+    const ctxRoot = Context.value(withStackConn, pool);
+    const cause = new Error('Business failure');
+
+    const err = await catchErr<TxnFailedError>(
+      txnRunner.run(ctxRoot, async (_, txn) => {
+        // Rollback early so the runner's rollback fails
+        await txn.rollback();
+        throw cause;
+      })
+    );
+
+    expect(err.phase).toBe('callback');
+    expect(err.cause).toBe(cause);
+    expect(err.rollbackError).toBeInstanceOf(Error);
+    expect(err.message).toBe(
+      'Transaction failed: Error: Business failure; ' +
+        'rollback also failed: Error: Transaction is already complete'
+    );
+  });
+
+  it('reports commit failure', async () => {
+    const pool = openStackPool([]);
+    const ctxRoot = Context.value(withStackConn, pool);
+
+    const err = await catchErr<TxnFailedError>(
+      txnRunner.run(ctxRoot, async (_, txn) => {
+        // Commit early so the runner's commit fails
+        await txn.commit();
+      })
+    );
+
+    expect(err.phase).toBe('commit');
+    expect((<Error>err.cause).message).toBe('Transaction is already complete');
+  });
+
+  it('reports begin failure', async () => {
+    const pool = openStackPool([]);
+    const ctxRoot = Context.value(withStackConn, pool);
+    const cause = new Error('No connections available');
+    pool.beginTxn = () => Promise.reject(cause);
+
+    const err = await catchErr<TxnFailedError>(
+      txnRunner.run(ctxRoot, () => null)
+    );
+
+    expect(err.phase).toBe('begin');
+    expect(err.cause).toBe(cause);
+  });
+});
+
+describe('error codes', () => {
+  const txnRunner = txn(StackCtxAccessor);
+
+  it('preserves non-error cause', async () => {
+    const pool = openStackPool([]);
+    const ctxRoot = Context.value(withStackConn, pool);
+
+    const err = await catchErr<TxnFailedError>(
+      txnRunner.run(ctxRoot, () => {
+        throw 'Not an error object';
+      })
+    );
+
+    expect(err.cause).toBe('Not an error object');
+  });
+
+  it('raises NoTxnAccessorError', () => {
+    let err: unknown;
+    try {
+      txn(Context.background);
+    } catch (e) {
+      err = e;
+    }
+    expect(err).toBeInstanceOf(NoTxnAccessorError);
+    expect((<TxnError>err).code).toBe('TXN_NO_ACCESSOR');
+  });
+
+  it('raises NoTransactableError', async () => {
+    const err = await catchErr<TxnError>(
+      txnRunner.run(Context.background, () => null)
+    );
+    expect(err).toBeInstanceOf(NoTransactableError);
+    expect(err.code).toBe('TXN_NO_TRANSACTABLE');
+  });
+
+  it('raises MissingCallbackError', async () => {
+    const pool = openStackPool([]);
+    const ctxRoot = Context.value(withStackConn, pool);
+
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    const err = await catchErr<TxnError>(txnRunner.run(ctxRoot, null!));
+    expect(err).toBeInstanceOf(MissingCallbackError);
+    expect(err.code).toBe('TXN_MISSING_CALLBACK');
+  });
+
+  it('raises NestedTxnUnsupportedError', async () => {
+    const pool = openStackPool([]);
+    const ctxRoot = Context.value(withStackConn, pool);
+
+    const err = await catchErr<TxnFailedError>(
+      txnRunner.run(ctxRoot, (ctx) => txnRunner.run(ctx, () => null))
+    );
+    expect(err.cause).toBeInstanceOf(NestedTxnUnsupportedError);
+    expect((<TxnError>err.cause).code).toBe('TXN_NESTED_UNSUPPORTED');
+  });
+
+  it('raises TxnCompletedError', async () => {
+    const err = await catchErr<TxnFailedError>(
+      changeSet().run(Context.background, async (_, cs) => {
+        await cs.commit();
+        cs.defer(() => null);
+      })
+    );
+    expect(err.cause).toBeInstanceOf(TxnCompletedError);
+    expect((<TxnError>err.cause).code).toBe('TXN_COMPLETED');
+  });
+});
@@ -2,9 +2,17 @@
 // Use of this source code is governed by a MIT
 // license that can be found in the LICENSE file.
 
-import { Transactable, Txn, TxnAccessor, TxnOptions } from '$';
+import {
+  ConnTxnAccessor,
+  createTxnAccessor,
+  IsolationLevel,
+  Transactable,
+  Txn,
+  TxnAccessor,
+  TxnOptions,
+} from '$';
 import { PromiseHandle } from '$test/lib/util';
-import { Canceler, Context, IContext, Maybe, withValue } from '@sabl/context';
+import { Context, IContext, Maybe, withValue } from '@sabl/context';
 
 export interface StackApi {
   push(ctx: IContext, val: unknown): Promise<number>;
@@ -50,6 +58,18 @@ export function getStackTxn(ctx: IContext): Maybe<StackTxn> {
   return <Maybe<StackTxn>>ctx.value(ctxKeyStackTxn);
 }
 
+/**
+ * Create context accessor methods for a separate stack store,
+ * with their own context keys. Useful for testing runners
+ * which span more than one store. The stack pool or connection
+ * is set on the context with the returned `withConn`.
+ */
+export function makeStackAccessor(
+  name: string
+): ConnTxnAccessor<StackTransactable, StackTxn> {
+  return createTxnAccessor<StackTransactable, StackTxn>(name);
+}
+
 /**
  * Context accessor methods for the StackApi
  * compatible with the [`txn()` API](https://npmjs.com/package/@sabl/txn#api) from
@@ -63,6 +83,9 @@ export const StackCtxAccessor: TxnAccessor<StackTxn> = {
 
 export interface StackConnOptions {
   nestedTxn?: boolean;
+  savepoints?: boolean;
+  twoPhase?: boolean;
+  isolationLevels?: IsolationLevel[];
 }
 
 interface StackOp {
@@ -73,6 +96,7 @@ interface StackOp {
 
 interface TxnRunner {
   _txnDone(txn: MemStackTxn): null | Promise<void>;
+  _setPrepared(id: string, txn: MemStackTxn | null): void;
 }
 
 class MemStackTxn implements StackTxn {
@@ -83,10 +107,11 @@ class MemStackTxn implements StackTxn {
   readonly #connOpts: StackConnOptions;
   readonly #txns: MemStackTxn[] = [];
   readonly #ctx: IContext;
+  readonly #savepoints = new Map<string, { snap: unknown[]; ops: number }>();
 
   #done = false;
-  #clr?: Canceler;
-  #onCancel: null | (() => void) = null;
+  #preparedId: string | null = null;
+  #completingPrepared = false;
   #closeResolve: PromiseHandle<void> | null = null;
 
   constructor(
@@ -102,17 +127,79 @@ class MemStackTxn implements StackTxn {
     this.#readonly = (opts || {}).readOnly === true;
     this.#connOpts = connOpts || {};
 
-    const clr = ctx.canceler;
-    if (clr != null) {
-      this.#clr = clr;
-      clr.onCancel(
-        (this.#onCancel = this.#cancel.bind(this, Context.background))
-      );
-    }
-
     if (this.#connOpts.nestedTxn === true) {
       Object.defineProperty(this, 'beginTxn', { value: this.#beginTxn });
     }
+
+    if (this.#connOpts.savepoints === true) {
+      Object.defineProperties(this, {
+        savepoint: { value: this.#savepoint },
+        rollbackTo: { value: this.#rollbackTo },
+        release: { value: this.#release },
+      });
+    }
+
+    if (this.#connOpts.twoPhase === true) {
+      Object.defineProperty(this, 'prepare', {
+        value: this.#prepare,
+        writable: true,
+      });
+    }
+  }
+
+  #prepare(id: string): Promise<void> {
+    this.#checkStatus();
+    this.#preparedId = id;
+    this.#con._setPrepared(id, this);
+    return Promise.resolve();
+  }
+
+  /** Complete a prepared transaction, as the pool does by id */
+  async _completePrepared(commit: boolean): Promise<void> {
+    this.#completingPrepared = true;
+    try {
+      await (commit ? this.commit() : this.rollback());
+    } finally {
+      this.#completingPrepared = false;
+    }
+  }
+
+  #unprepare() {
+    if (this.#preparedId != null) {
+      this.#con._setPrepared(this.#preparedId, null);
+      this.#preparedId = null;
+    }
+  }
+
+  #savepoint(name: string): Promise<void> {
+    this.#checkStatus();
+    this.#savepoints.set(name, {
+      snap: this.#snap.concat(),
+      ops: this.#ops.length,
+    });
+    return Promise.resolve();
+  }
+
+  #getSavepoint(name: string) {
+    this.#checkStatus();
+    const sp = this.#savepoints.get(name);
+    if (sp == null) {
+      throw new Error(`No such savepoint: ${name}`);
+    }
+    return sp;
+  }
+
+  #rollbackTo(name: string): Promise<void> {
+    const sp = this.#getSavepoint(name);
+    this.#snap.splice(0, this.#snap.length, ...sp.snap);
+    this.#ops.splice(sp.ops);
+    return Promise.resolve();
+  }
+
+  #release(name: string): Promise<void> {
+    this.#getSavepoint(name);
+    this.#savepoints.delete(name);
+    return Promise.resolve();
   }
 
   #beginTxn(ctx: IContext, opts?: TxnOptions | undefined): Promise<StackTxn> {
@@ -123,16 +210,6 @@ class MemStackTxn implements StackTxn {
     return Promise.resolve(txn);
   }
 
-  #cancel() {
-    if (this.#onCancel) {
-      this.#clr?.off(this.#onCancel);
-      this.#onCancel = null;
-    }
-    if (!this.#done) {
-      this.rollback();
-    }
-  }
-
   #checkStatus(mod = false) {
     if (this.#done) {
       throw new Error('Transaction is already complete');
@@ -140,16 +217,28 @@ class MemStackTxn implements StackTxn {
     if (mod && this.#readonly) {
       throw new Error('Cannot push or pop: Transaction is read-only');
     }
+    if (mod && this.#preparedId != null) {
+      throw new Error('Cannot push or pop: Transaction is prepared');
+    }
+  }
+
+  #checkNotPrepared() {
+    // Like PostgreSQL, a prepared transaction is detached from
+    // its session, and can only be completed by its id
+    if (this.#preparedId != null && !this.#completingPrepared) {
+      throw new Error('Cannot commit or roll back: Transaction is prepared');
+    }
   }
 
   #complete(): Promise<void> {
-    this.#cancel();
     return this.#con._txnDone(this) || Promise.resolve();
   }
 
   async commit(): Promise<void> {
     this.#checkStatus();
+    this.#checkNotPrepared();
     this.#done = true;
+    this.#unprepare();
 
     const ctx = this.#ctx;
 
@@ -171,7 +260,9 @@ class MemStackTxn implements StackTxn {
 
   async rollback(): Promise<void> {
     this.#checkStatus();
+    this.#checkNotPrepared();
     this.#done = true;
+    this.#unprepare();
 
     if (this.#txns.length > 0) {
       const promises = [];
@@ -202,6 +293,10 @@ class MemStackTxn implements StackTxn {
     return Promise.resolve(this.#snap[this.#snap.length - 1]);
   }
 
+  _setPrepared(id: string, txn: MemStackTxn | null): void {
+    this.#con._setPrepared(id, txn);
+  }
+
   _txnDone(txn: MemStackTxn): null {
     const ix = this.#txns.indexOf(txn);
     if (ix < 0) {
@@ -287,6 +382,10 @@ class MemStackConn implements StackConn {
     return Promise.resolve(this.#stack[this.#stack.length - 1]);
   }
 
+  _setPrepared(id: string, txn: MemStackTxn | null): void {
+    this.#pool._setPrepared(id, txn);
+  }
+
   _txnDone(txn: MemStackTxn): null | Promise<void> {
     const ix = this.#txns.indexOf(txn);
     if (ix < 0) {
@@ -321,12 +420,44 @@ class MemStackPool implements StackPool {
   readonly #stack: unknown[];
   readonly #active: MemStackConn[] = [];
   readonly #opts: StackConnOptions;
+  readonly #prepared = new Map<string, MemStackTxn>();
   #closed = false;
   #waitClose: PromiseHandle<void> | null = null;
 
   constructor(stack: unknown[], opts?: StackConnOptions) {
     this.#stack = stack;
     this.#opts = opts || {};
+
+    if (this.#opts.twoPhase === true) {
+      Object.defineProperties(this, {
+        commitPrepared: { value: this.#commitPrepared },
+        rollbackPrepared: { value: this.#rollbackPrepared },
+      });
+    }
+
+    if (this.#opts.isolationLevels != null) {
+      Object.defineProperty(this, 'supportedIsolationLevels', {
+        value: this.#opts.isolationLevels,
+      });
+    }
+  }
+
+  #commitPrepared(ctx: IContext, id: string): Promise<void> {
+    return this.#prepared.get(id)?._completePrepared(true) || Promise.resolve();
+  }
+
+  #rollbackPrepared(ctx: IContext, id: string): Promise<void> {
+    return (
+      this.#prepared.get(id)?._completePrepared(false) || Promise.resolve()
+    );
+  }
+
+  _setPrepared(id: string, txn: MemStackTxn | null): void {
+    if (txn == null) {
+      this.#prepared.delete(id);
+    } else {
+      this.#prepared.set(id, txn);
+    }
   }
 
   #checkStatus() {
@@ -0,0 +1,272 @@
+// Copyright 2022 Joshua Honig. All rights reserved.
+// Use of this source code is governed by a MIT
+// license that can be found in the LICENSE file.
+
+import {
+  changeSet,
+  getTxnHooks,
+  txn,
+  TxnCanceledError,
+  txnChangeSet,
+  TxnFailedError,
+  TxnHookEvent,
+  TxnHooks,
+  withTxnHooks,
+} from '$';
+import { catchErr } from '$test/lib/util';
+import { Context } from '@sabl/context';
+import { openStackPool, StackCtxAccessor, withStackConn } from './fixtures';
+
+type Recorded = [string, TxnHookEvent];
+
+function recorder(log: Recorded[], tag = ''): TxnHooks {
+  const rec = (name: string) => (evt: TxnHookEvent) => {
+    log.push([tag + name, evt]);
+  };
+  return {
+    beforeBegin: rec('beforeBegin'),
+    afterBegin: rec('afterBegin'),
+    beforeCommit: rec('beforeCommit'),
+    afterCommit: rec('afterCommit'),
+    afterRollback: rec('afterRollback'),
+    onError: rec('onError'),
+  };
+}
+
+describe('hooks', () => {
+  it('calls hooks on commit', async () => {
+    const log: Recorded[] = [];
+    const runner = txn(StackCtxAccessor, { hooks: [recorder(log)] });
+    const ctxRoot = Context.value(withStackConn, openStackPool([]));
+
+    let callbackTxn: unknown;
+    await runner.run(ctxRoot, { readOnly: true }, (_, txn) => {
+      callbackTxn = txn;
+      log.push(['callback', <TxnHookEvent>{}]);
+    });
+
+    expect(log.map(([name]) => name)).toEqual([
+      'beforeBegin',
+      'afterBegin',
+      'callback',
+      'beforeCommit',
+      'afterCommit',
+    ]);
+
+    const [[, before], [, after]] = log;
+    expect(before.ctx).toBe(ctxRoot);
+    expect(before.txn).toBeUndefined();
+    expect(before.opts).toEqual({ readOnly: true });
+    expect(before.attempt).toBe(1);
+    expect(before.nested).toBe(false);
+    expect(after.txn).toBe(callbackTxn);
+    expect(after.startTime).toBe(before.startTime);
+    expect(after.elapsedMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('calls hooks on rollback', async () => {
+    const log: Recorded[] = [];
+    const runner = txn(StackCtxAccessor, { hooks: [recorder(log)] });
+    const ctxRoot = Context.value(withStackConn, openStackPool([]));
+
+    await expect(
+      runner.run(ctxRoot, () => {
+        throw new Error('Failing on purpose');
+      })
+    ).rejects.toBeInstanceOf(TxnFailedError);
+
+    expect(log.map(([name]) => name)).toEqual([
+      'beforeBegin',
+      'afterBegin',
+      'afterRollback',
+      'onError',
+    ]);
+
+    const err = <TxnFailedError>log[3][1].error;
+    expect(err).toBeInstanceOf(TxnFailedError);
+    expect(err.phase).toBe('callback');
+  });
+
+  it('calls onError for each failed attempt', async () => {
+    const log: Recorded[] = [];
+    const runner = txn(StackCtxAccessor, { hooks: [recorder(log)] });
+    const ctxRoot = Context.value(withStackConn, openStackPool([]));
+
+    let attempts = 0;
+    await runner.run(
+      ctxRoot,
+      { retry: { maxAttempts: 3, baseDelayMs: 1, isRetryable: () => true } },
+      () => {
+        if (++attempts < 2) {
+          throw new Error('Serialization failure');
+        }
+      }
+    );
+
+    const errors = log.filter(([name]) => name == 'onError');
+    expect(errors.length).toBe(1);
+    expect(errors[0][1].attempt).toBe(1);
+    expect(log[log.length - 1][0]).toBe('afterCommit');
+    expect(log[log.length - 1][1].attempt).toBe(2);
+  });
+
+  it('calls onError when begin fails', async () => {
+    const log: Recorded[] = [];
+    const runner = txn(StackCtxAccessor, { hooks: [recorder(log)] });
+    const pool = openStackPool([]);
+    pool.beginTxn = () => Promise.reject(new Error('Connection refused'));
+    const ctxRoot = Context.value(withStackConn, pool);
+
+    await expect(runner.run(ctxRoot, () => null)).rejects.toThrow(
+      'Connection refused'
+    );
+
+    expect(log.map(([name]) => name)).toEqual(['beforeBegin', 'onError']);
+    expect((<TxnFailedError>log[1][1].error).phase).toBe('begin');
+  });
+
+  it('calls onError when canceled', async () => {
+    const log: Recorded[] = [];
+    const runner = txn(StackCtxAccessor, { hooks: [recorder(log)] });
+    const [ctxCancel, cancel] = Context.cancel();
+    const ctxRoot = ctxCancel.withValue(withStackConn, openStackPool([]));
+
+    await expect(
+      runner.run(ctxRoot, () => {
+        cancel();
+      })
+    ).rejects.toBeInstanceOf(TxnCanceledError);
+
+    expect(log[log.length - 1][1].error).toBeInstanceOf(TxnCanceledError);
+  });
+
+  it('fails transaction if before hook throws', async () => {
+    const stack: unknown[] = [];
+    const runner = txn(StackCtxAccessor, {
+      hooks: [
+        {
+          beforeCommit() {
+            throw new Error('Audit unavailable');
+          },
+        },
+      ],
+    });
+    const ctxRoot = Context.value(withStackConn, openStackPool(stack));
+
+    const err = await catchErr<TxnFailedError>(
+      runner.run(ctxRoot, (ctx, txn) => txn.push(ctx, 'a'))
+    );
+
+    expect(err).toBeInstanceOf(TxnFailedError);
+    expect(err.phase).toBe('commit');
+    expect(stack).toEqual([]);
+  });
+
+  it('rolls back if afterBegin throws', async () => {
+    let ran = false;
+    const runner = txn(StackCtxAccessor, {
+      hooks: [
+        {
+          afterBegin() {
+            throw new Error('Tracing failed');
+          },
+        },
+      ],
+    });
+    const ctxRoot = Context.value(withStackConn, openStackPool([]));
+
+    const err = await catchErr<TxnFailedError>(
+      runner.run(ctxRoot, () => (ran = true))
+    );
+
+    expect(err.phase).toBe('begin');
+    expect(ran).toBe(false);
+  });
+
+  it('ignores errors from after hooks', async () => {
+    const stack: unknown[] = [];
+    const fail = () => {
+      throw new Error('Metrics unavailable');
+    };
+    const runner = txn(StackCtxAccessor, {
+      hooks: [{ afterCommit: fail, afterRollback: fail, onError: fail }],
+    });
+    const ctxRoot = Context.value(withStackConn, openStackPool(stack));
+
+    await runner.run(ctxRoot, (ctx, txn) => txn.push(ctx, 'a'));
+    expect(stack).toEqual(['a']);
+
+    await expect(
+      runner.run(ctxRoot, () => {
+        throw new Error('Failing on purpose');
+      })
+    ).rejects.toThrow('Failing on purpose');
+  });
+
+  it('calls context hooks after runner hooks', async () => {
+    const log: Recorded[] = [];
+    const runner = changeSet({ hooks: [recorder(log, 'runner:')] });
+
+    let ctx = Context.background;
+    expect(getTxnHooks(ctx)).toEqual([]);
+    ctx = ctx.withValue(withTxnHooks, recorder(log, 'a:'));
+    ctx = ctx.withValue(withTxnHooks, recorder(log, 'b:'));
+    expect(getTxnHooks(ctx).length).toBe(2);
+
+    await runner.run(ctx, () => null);
+
+    expect(log.map(([name]) => name).slice(0, 3)).toEqual([
+      'runner:beforeBegin',
+      'a:beforeBegin',
+      'b:beforeBegin',
+    ]);
+  });
+
+  it('does not call hooks when joining', async () => {
+    const log: Recorded[] = [];
+    const runner = txn(StackCtxAccessor, { hooks: [recorder(log)] });
+    const ctxRoot = Context.value(withStackConn, openStackPool([]));
+
+    await runner.run(ctxRoot, async (ctx) => {
+      const count = log.length;
+      await runner.in(ctx, () => null);
+      expect(log.length).toBe(count);
+    });
+  });
+
+  it('marks nested transactions', async () => {
+    const log: Recorded[] = [];
+    const runner = txn(StackCtxAccessor, { hooks: [recorder(log)] });
+    const ctxRoot = Context.value(
+      withStackConn,
+      openStackPool([], { savepoints: true })
+    );
+
+    await runner.run(ctxRoot, (ctx) => runner.run(ctx, () => null));
+
+    const begins = log.filter(([name]) => name == 'beforeBegin');
+    expect(begins.map(([, evt]) => evt.nested)).toEqual([false, true]);
+  });
+
+  it('calls txnChangeSet hooks once per run', async () => {
+    const log: Recorded[] = [];
+    const runner = txnChangeSet(StackCtxAccessor, { hooks: [recorder(log)] });
+    const ctxRoot = Context.value(withStackConn, openStackPool([]));
+    const ctxHooks = withTxnHooks(ctxRoot, recorder(log, 'ctx.'));
+
+    await runner.run(ctxHooks, (_, cs) => {
+      cs.deferTxn((ctx, txn) => txn.push(ctx, 'a'));
+    });
+
+    expect(log.map(([name]) => name)).toEqual([
+      'beforeBegin',
+      'ctx.beforeBegin',
+      'afterBegin',
+      'ctx.afterBegin',
+      'beforeCommit',
+      'ctx.beforeCommit',
+      'afterCommit',
+      'ctx.afterCommit',
+    ]);
+  });
+});
@@ -0,0 +1,216 @@
+// Copyright 2022 Joshua Honig. All rights reserved.
+// Use of this source code is governed by a MIT
+// license that can be found in the LICENSE file.
+
+import {
+  IdempotencyConflictError,
+  idempotencyStoreContract,
+  memIdempotencyStore,
+  NoIdempotencyStoreError,
+  Propagation,
+  txn,
+  TxnFailedError,
+} from '$';
+import { PromiseHandle } from '$test/lib/util';
+import { Context } from '@sabl/context';
+import { openStackPool, StackCtxAccessor, withStackConn } from './fixtures';
+
+function setup() {
+  const stack: unknown[] = [];
+  const store = memIdempotencyStore();
+  return {
+    ctx: Context.value(withStackConn, openStackPool(stack)),
+    stack,
+    store,
+    runner: txn(StackCtxAccessor, { idempotencyStore: store }),
+  };
+}
+
+describe('memIdempotencyStore', () => {
+  for (const c of idempotencyStoreContract(setup)) {
+    it(c.name, () => c.run());
+  }
+});
+
+describe('idempotencyStoreContract', () => {
+  it('fails for a store which does not save keys', async () => {
+    const cases = idempotencyStoreContract(() => {
+      const store = {
+        get: () => Promise.resolve(null),
+        put: () => Promise.resolve(),
+      };
+      return {
+        ctx: Context.value(withStackConn, openStackPool([])),
+        store,
+        runner: txn(StackCtxAccessor, { idempotencyStore: store }),
+      };
+    });
+
+    const results = await Promise.all(
+      cases.map((c) =>
+        c.run().then(
+          () => 'pass',
+          (e: Error) => e.message
+        )
+      )
+    );
+    expect(results).toEqual([
+      'pass',
+      'Expected 1 call, but got 2',
+      'pass',
+      'pass',
+      'Expected put to reject for a saved key',
+    ]);
+  });
+
+  it('fails for a store which does not save results', async () => {
+    const [, returnsResult] = idempotencyStoreContract(() => {
+      const store = memIdempotencyStore();
+      const put = store.put.bind(store);
+      store.put = (ctx, txn, key) => put(ctx, txn, key, null);
+      return {
+        ctx: Context.value(withStackConn, openStackPool([])),
+        store,
+        runner: txn(StackCtxAccessor, { idempotencyStore: store }),
+      };
+    });
+
+    await expect(returnsResult.run()).rejects.toThrow(
+      'Expected saved result, but got null'
+    );
+  });
+
+  it('fails for a store which returns results for unknown keys', async () => {
+    const [unknownKey, , , independent] = idempotencyStoreContract(() => {
+      const store = memIdempotencyStore();
+      store.get = () => Promise.resolve({ result: 'a' });
+      return {
+        ctx: Context.value(withStackConn, openStackPool([])),
+        store,
+        runner: txn(StackCtxAccessor, { idempotencyStore: store }),
+      };
+    });
+
+    await expect(unknownKey.run()).rejects.toThrow(
+      'Expected no record for an unknown key'
+    );
+    await expect(independent.run()).rejects.toThrow(
+      `Expected 'b', but got "a"`
+    );
+  });
+
+  it('fails for a store which saves rolled back keys', async () => {
+    const [, , rollback] = idempotencyStoreContract(() => {
+      const saved = new Map<string, unknown>();
+      const store = {
+        get: (_: unknown, __: unknown, key: string) =>
+          Promise.resolve(saved.has(key) ? { result: saved.get(key) } : null),
+        put: (_: unknown, __: unknown, key: string, result: unknown) => {
+          saved.set(key, result);
+          return Promise.resolve();
+        },
+      };
+      return {
+        ctx: Context.value(withStackConn, openStackPool([])),
+        store,
+        runner: txn(StackCtxAccessor, { idempotencyStore: store }),
+      };
+    });
+
+    await expect(rollback.run()).rejects.toThrow('Expected 2 calls, but got 1');
+  });
+});
+
+describe('idempotencyKey', () => {
+  it('applies the callback once', async () => {
+    const { ctx, stack, runner } = setup();
+    const opts = { idempotencyKey: 'order-1' };
+
+    const first = await runner.run(ctx, opts, async (ctx, txn) => {
+      await txn.push(ctx, 'order 1');
+      return { orderId: 1 };
+    });
+    const second = await runner.run(ctx, opts, async (ctx, txn) => {
+      await txn.push(ctx, 'order 1');
+      return { orderId: 2 };
+    });
+
+    expect(first).toEqual({ orderId: 1 });
+    expect(second).toBe(first);
+    expect(stack).toEqual(['order 1']);
+  });
+
+  it('saves the key in an existing transaction', async () => {
+    const { ctx, runner, store } = setup();
+
+    await runner.run(ctx, async (ctx, txn) => {
+      await runner.in(ctx, { idempotencyKey: 'k' }, () => 'a');
+      expect(await store.get(ctx, txn, 'k')).toBeNull();
+    });
+
+    expect(await runner.in(ctx, { idempotencyKey: 'k' }, () => 'b')).toBe('a');
+  });
+
+  it('returns the result of a concurrent run on retry', async () => {
+    const { ctx, runner } = setup();
+    const gate = new PromiseHandle<void>();
+    const retry = {
+      maxAttempts: 2,
+      baseDelayMs: 1,
+      isRetryable: (e: unknown) => e instanceof IdempotencyConflictError,
+    };
+
+    const slow = runner.run(ctx, { idempotencyKey: 'k', retry }, async () => {
+      await gate.promise;
+      return 'slow';
+    });
+    const fast = await runner.run(ctx, { idempotencyKey: 'k' }, () => 'fast');
+    gate.resolve();
+
+    expect(fast).toBe('fast');
+    expect(await slow).toBe('fast');
+  });
+
+  it('rejects a concurrent run without retry', async () => {
+    const { ctx, runner } = setup();
+    const gate = new PromiseHandle<void>();
+
+    const slow = runner.run(ctx, { idempotencyKey: 'k' }, async () => {
+      await gate.promise;
+      return 'slow';
+    });
+    const fast = runner.run(ctx, { idempotencyKey: 'k' }, async () => {
+      await gate.promise;
+      return 'fast';
+    });
+    gate.resolve();
+
+    await expect(slow).resolves.toBe('slow');
+    const err = <TxnFailedError>await fast.catch((e) => e);
+    expect(err.cause).toBeInstanceOf(IdempotencyConflictError);
+    expect((<IdempotencyConflictError>err.cause).key).toBe('k');
+    expect((<IdempotencyConflictError>err.cause).code).toBe(
+      'TXN_IDEMPOTENCY_CONFLICT'
+    );
+  });
+
+  it('is ignored without a transaction', async () => {
+    const { ctx, runner } = setup();
+    const opts = {
+      idempotencyKey: 'k',
+      propagation: <const>Propagation.supports,
+    };
+
+    expect(await runner.run(ctx, opts, () => 'a')).toBe('a');
+    expect(await runner.run(ctx, opts, () => 'b')).toBe('b');
+  });
+
+  it('requires a store', async () => {
+    const ctx = Context.value(withStackConn, openStackPool([]));
+    const runner = txn(StackCtxAccessor);
+
+    await expect(
+      runner.run(ctx, { idempotencyKey: 'k' }, () => null)
+    ).rejects.toBeInstanceOf(NoIdempotencyStoreError);
+  });
+});
@@ -0,0 +1,165 @@
+// Copyright 2022 Joshua Honig. All rights reserved.
+// Use of this source code is governed by a MIT
+// license that can be found in the LICENSE file.
+
+import {
+  compareIsolation,
+  getTxnOptions,
+  IsolationLevel,
+  IsolationPolicy,
+  IsolationUnsupportedError,
+  txn,
+  TxnRunnerConfig,
+} from '$';
+import { catchErr } from '$test/lib/util';
+import { Context, IContext } from '@sabl/context';
+import { openStackPool, StackCtxAccessor, withStackConn } from './fixtures';
+
+const supported = [
+  IsolationLevel.default,
+  IsolationLevel.readCommitted,
+  IsolationLevel.serializable,
+];
+
+function rootCtx(): IContext {
+  return Context.value(
+    withStackConn,
+    openStackPool([], { isolationLevels: supported, savepoints: true })
+  );
+}
+
+/** Run with the requested level and return the level the transaction used */
+function levelUsed(
+  requested: IsolationLevel,
+  config?: TxnRunnerConfig
+): Promise<IsolationLevel | undefined> {
+  return txn(StackCtxAccessor, config).run(
+    rootCtx(),
+    { isolationLevel: requested },
+    (_, txn) => getTxnOptions(txn)?.isolationLevel
+  );
+}
+
+describe('compareIsolation', () => {
+  it('orders levels by strength', () => {
+    expect(
+      compareIsolation(IsolationLevel.readCommitted, IsolationLevel.snapshot)
+    ).toBeLessThan(0);
+    expect(
+      compareIsolation(IsolationLevel.linearizable, IsolationLevel.serializable)
+    ).toBeGreaterThan(0);
+    expect(
+      compareIsolation(IsolationLevel.snapshot, IsolationLevel.snapshot)
+    ).toBe(0);
+    expect(
+      compareIsolation(IsolationLevel.default, IsolationLevel.readUncommitted)
+    ).toBeLessThan(0);
+  });
+});
+
+describe('isolationPolicy', () => {
+  it('uses supported levels as requested', async () => {
+    for (const level of supported) {
+      expect(await levelUsed(level)).toBe(level);
+    }
+  });
+
+  it('ignores levels if the transactable does not declare them', async () => {
+    const ctxRoot = Context.value(withStackConn, openStackPool([]));
+    const level = await txn(StackCtxAccessor).run(
+      ctxRoot,
+      { isolationLevel: IsolationLevel.snapshot },
+      (_, txn) => getTxnOptions(txn)?.isolationLevel
+    );
+
+    expect(level).toBe(IsolationLevel.snapshot);
+  });
+
+  it('rejects unsupported levels by default', async () => {
+    const isoErr = await catchErr<IsolationUnsupportedError>(
+      levelUsed(IsolationLevel.snapshot)
+    );
+
+    expect(isoErr).toBeInstanceOf(IsolationUnsupportedError);
+    expect(isoErr.code).toBe('TXN_ISOLATION_UNSUPPORTED');
+    expect(isoErr.message).toBe('Isolation level snapshot is not supported');
+    expect(isoErr.requested).toBe(IsolationLevel.snapshot);
+    expect(isoErr.supported).toBe(supported);
+  });
+
+  it('upgrades to the next stronger level', async () => {
+    const config = { isolationPolicy: IsolationPolicy.upgrade };
+
+    expect(await levelUsed(IsolationLevel.readUncommitted, config)).toBe(
+      IsolationLevel.readCommitted
+    );
+    expect(await levelUsed(IsolationLevel.repeatableRead, config)).toBe(
+      IsolationLevel.serializable
+    );
+    await expect(
+      levelUsed(IsolationLevel.linearizable, config)
+    ).rejects.toBeInstanceOf(IsolationUnsupportedError);
+  });
+
+  it('downgrades to the next weaker level', async () => {
+    const calls: [IsolationLevel, IsolationLevel][] = [];
+    const config = {
+      isolationPolicy: IsolationPolicy.downgrade,
+      onIsolationDowngrade: (
+        ctx: IContext,
+        requested: IsolationLevel,
+        actual: IsolationLevel
+      ) => calls.push([requested, actual]),
+    };
+
+    expect(await levelUsed(IsolationLevel.linearizable, config)).toBe(
+      IsolationLevel.serializable
+    );
+    expect(await levelUsed(IsolationLevel.snapshot, config)).toBe(
+      IsolationLevel.readCommitted
+    );
+    expect(calls).toEqual([
+      [IsolationLevel.linearizable, IsolationLevel.serializable],
+      [IsolationLevel.snapshot, IsolationLevel.readCommitted],
+    ]);
+
+    // Never downgrades to the driver default
+    await expect(
+      levelUsed(IsolationLevel.readUncommitted, config)
+    ).rejects.toBeInstanceOf(IsolationUnsupportedError);
+    expect(calls.length).toBe(2);
+  });
+
+  it('downgrades without a handler', async () => {
+    expect(
+      await levelUsed(IsolationLevel.snapshot, {
+        isolationPolicy: IsolationPolicy.downgrade,
+      })
+    ).toBe(IsolationLevel.readCommitted);
+  });
+
+  it('rejects with error thrown by onIsolationDowngrade', async () => {
+    const config = {
+      isolationPolicy: IsolationPolicy.downgrade,
+      onIsolationDowngrade: () => {
+        throw new Error('Downgrade not allowed');
+      },
+    };
+
+    await expect(levelUsed(IsolationLevel.snapshot, config)).rejects.toThrow(
+      'Downgrade not allowed'
+    );
+  });
+
+  it('does not check savepoints', async () => {
+    const runner = txn(StackCtxAccessor);
+
+    await runner.run(rootCtx(), async (ctx) => {
+      await runner.run(
+        ctx,
+        { isolationLevel: IsolationLevel.snapshot },
+        () => null
+      );
+    });
+  });
+});
@@ -0,0 +1,149 @@
+// Copyright 2022 Joshua Honig. All rights reserved.
+// Use of this source code is governed by a MIT
+// license that can be found in the LICENSE file.
+
+import {
+  getTxnOptions,
+  IncompatibleTxnError,
+  IsolationLevel,
+  Propagation,
+  txn,
+  TxnOptions,
+  TxnRunOptions,
+} from '$';
+import { catchErr } from '$test/lib/util';
+import { Context, IContext } from '@sabl/context';
+import { openStackPool, StackCtxAccessor, withStackConn } from './fixtures';
+
+describe('joining existing transaction', () => {
+  const txnRunner = txn(StackCtxAccessor);
+
+  function rootCtx(): Context {
+    return Context.value(withStackConn, openStackPool([]));
+  }
+
+  it('records options of new transaction', async () => {
+    await txnRunner.run(
+      rootCtx(),
+      { isolationLevel: IsolationLevel.serializable, readOnly: true },
+      (_, txn) => {
+        expect(getTxnOptions(txn)).toEqual({
+          isolationLevel: IsolationLevel.serializable,
+          readOnly: true,
+        });
+      }
+    );
+  });
+
+  it('allows equal or weaker options', async () => {
+    const opts = {
+      isolationLevel: IsolationLevel.repeatableRead,
+      readOnly: true,
+    };
+
+    await txnRunner.run(rootCtx(), opts, async (ctxOuter, txnOuter) => {
+      await txnRunner.in(ctxOuter, opts, (_, txnInner) => {
+        expect(txnInner).toBe(txnOuter);
+      });
+      await txnRunner.in(
+        ctxOuter,
+        { isolationLevel: IsolationLevel.readCommitted },
+        (_, txnInner) => {
+          expect(txnInner).toBe(txnOuter);
+        }
+      );
+    });
+  });
+
+  it('rejects stronger isolation level', async () => {
+    const incErr = await txnRunner.run(rootCtx(), (ctx) =>
+      catchErr<IncompatibleTxnError>(
+        txnRunner.in(
+          ctx,
+          { isolationLevel: IsolationLevel.serializable },
+          () => null
+        )
+      )
+    );
+
+    expect(incErr).toBeInstanceOf(IncompatibleTxnError);
+    expect(incErr.code).toBe('TXN_INCOMPATIBLE');
+    expect(incErr.requested).toEqual({
+      isolationLevel: IsolationLevel.serializable,
+    });
+    expect(incErr.existing).toEqual({});
+  });
+
+  it('rejects read-write within read-only', async () => {
+    const opts: TxnRunOptions[] = [
+      { propagation: Propagation.required },
+      { propagation: Propagation.mandatory },
+    ];
+
+    for (const o of opts) {
+      await txnRunner.run(rootCtx(), { readOnly: true }, async (ctx) => {
+        await expect(
+          txnRunner.run(ctx, { ...o, readOnly: false }, () => null)
+        ).rejects.toBeInstanceOf(IncompatibleTxnError);
+      });
+    }
+
+    await txnRunner.run(rootCtx(), { readOnly: true }, async (ctx) => {
+      await expect(
+        txnRunner.run(
+          ctx,
+          { propagation: Propagation.supports, readOnly: false },
+          () => null
+        )
+      ).rejects.toBeInstanceOf(IncompatibleTxnError);
+    });
+  });
+
+  it('calls onIncompatibleJoin instead of rejecting', async () => {
+    const calls: [IContext, TxnOptions, TxnOptions][] = [];
+    const lenient = txn(StackCtxAccessor, {
+      onIncompatibleJoin: (ctx, requested, existing) =>
+        calls.push([ctx, requested, existing]),
+    });
+
+    const result = await lenient.run(rootCtx(), async (ctxOuter) => {
+      return lenient.in(
+        ctxOuter,
+        { isolationLevel: IsolationLevel.snapshot },
+        () => 'ok'
+      );
+    });
+
+    expect(result).toBe('ok');
+    expect(calls.length).toBe(1);
+    expect(calls[0][1]).toEqual({ isolationLevel: IsolationLevel.snapshot });
+    expect(calls[0][2]).toEqual({});
+  });
+
+  it('rejects with error thrown by onIncompatibleJoin', async () => {
+    const strict = txn(StackCtxAccessor, {
+      onIncompatibleJoin: () => {
+        throw new Error('Incompatible');
+      },
+    });
+
+    await strict.run(rootCtx(), { readOnly: true }, async (ctx) => {
+      await expect(
+        strict.in(ctx, { readOnly: false }, () => null)
+      ).rejects.toThrow('Incompatible');
+    });
+  });
+
+  it('does not check transactions from other sources', async () => {
+    const pool = openStackPool([]);
+    const ctxRoot = Context.value(withStackConn, pool);
+    const extTxn = await pool.beginTxn(ctxRoot, { readOnly: true });
+    const ctx = StackCtxAccessor.withTxn(ctxRoot, extTxn);
+
+    expect(getTxnOptions(extTxn)).toBeUndefined();
+    await txnRunner.in(ctx, { readOnly: false }, (_, txn) => {
+      expect(txn).toBe(extTxn);
+    });
+    await extTxn.rollback();
+  });
+});
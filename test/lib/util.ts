@@ -8,6 +8,16 @@ export function hasFlag<T extends number>(flags: T, flag: T): boolean {
   return (flags & flag) === flag;
 }
 
+/** Resolve to the error `p` rejects with. Fail if it resolves */
+export async function catchErr<E = Error>(p: Promise<unknown>): Promise<E> {
+  try {
+    await p;
+  } catch (e) {
+    return <E>e;
+  }
+  throw new Error('Expected promise to reject');
+}
+
 export type FnReject = (reason: unknown) => void;
 export type FnResolve<T> = (value: T | PromiseLike<T>) => void;
 
@@ -0,0 +1,311 @@
+// Copyright 2022 Joshua Honig. All rights reserved.
+// Use of this source code is governed by a MIT
+// license that can be found in the LICENSE file.
+
+import {
+  afterCommit,
+  afterRollback,
+  MultiTxnChangeSet,
+  multiTxnChangeSet,
+  NoTransactableError,
+  NoTxnAccessorError,
+  TxnAccessor,
+  TxnFailedError,
+  txnBag,
+} from '$';
+import { catchErr } from '$test/lib/util';
+import { Context, IContext, Maybe, withValue } from '@sabl/context';
+import {
+  openStackPool,
+  StackCtxAccessor,
+  StackTransactable,
+  StackTxn,
+  withStackConn,
+} from './fixtures';
+
+const ctxKeyCache = Symbol('Cache');
+const ctxKeyCacheTxn = Symbol('CacheTxn');
+
+/** A second stack store, with its own context keys */
+const CacheCtxAccessor: TxnAccessor<StackTxn> = {
+  getTransactable(ctx: IContext): Maybe<StackTransactable> {
+    return <Maybe<StackTransactable>>ctx.value(ctxKeyCache);
+  },
+  getTxn(ctx: IContext): Maybe<StackTxn> {
+    return <Maybe<StackTxn>>ctx.value(ctxKeyCacheTxn);
+  },
+  withTxn(ctx: IContext, txn: StackTxn): Context {
+    return withValue(ctx, ctxKeyCacheTxn, txn);
+  },
+};
+
+function withStores(orders: unknown[], cache: unknown[]) {
+  const ordersPool = openStackPool(orders);
+  const cachePool = openStackPool(cache);
+  const ctx = Context.value(withStackConn, ordersPool).withValue(
+    ctxKeyCache,
+    cachePool
+  );
+  return { ctx, ordersPool, cachePool };
+}
+
+describe('multiTxnChangeSet', () => {
+  const runner = multiTxnChangeSet({
+    orders: StackCtxAccessor,
+    cache: CacheCtxAccessor,
+  });
+
+  it('commits each transaction', async () => {
+    const orders: unknown[] = [];
+    const cache: unknown[] = [];
+    const { ctx } = withStores(orders, cache);
+    const log: string[] = [];
+
+    await runner.run(ctx, (_, cs) => {
+      cs.deferTxn('cache', (ctx, txn) => txn.push(ctx, 'order 1'));
+      cs.deferTxn('orders', async (ctx, txn) => {
+        expect(StackCtxAccessor.getTxn(ctx)).toBe(txn);
+        await txn.push(ctx, 'order 1');
+      });
+      cs.defer(() => log.push('sent ' + orders.join() + ' ' + cache.join()));
+
+      expect(cs.pendingCount('deferTxn')).toBe(2);
+    });
+
+    expect(orders).toEqual(['order 1']);
+    expect(cache).toEqual(['order 1']);
+    expect(log).toEqual(['sent order 1 order 1']);
+  });
+
+  it('only opens transactions with callbacks', async () => {
+    const { ctx, cachePool } = withStores([], []);
+    cachePool.beginTxn = () => Promise.reject(new Error('Not expected'));
+
+    await runner.run(ctx, (_, cs) => {
+      cs.deferTxn('orders', (ctx, txn) => txn.push(ctx, 'a'));
+    });
+  });
+
+  it('opens and commits in order of accessors', async () => {
+    const { ctx, ordersPool, cachePool } = withStores([], []);
+    const log: string[] = [];
+
+    for (const [name, pool] of [
+      ['orders', ordersPool],
+      ['cache', cachePool],
+    ] as const) {
+      const beginTxn = pool.beginTxn.bind(pool);
+      pool.beginTxn = async (ctx, opts) => {
+        log.push('begin ' + name);
+        const txn = await beginTxn(ctx, opts);
+        const commit = txn.commit.bind(txn);
+        txn.commit = () => {
+          log.push('commit ' + name);
+          return commit();
+        };
+        return txn;
+      };
+    }
+
+    await runner.run(ctx, (_, cs) => {
+      cs.deferTxn('cache', () => log.push('callback cache'));
+      cs.deferTxn('orders', () => log.push('callback orders'));
+    });
+
+    expect(log).toEqual([
+      'begin orders',
+      'callback orders',
+      'begin cache',
+      'callback cache',
+      'commit orders',
+      'commit cache',
+    ]);
+  });
+
+  it('supports afterCommit and txnBag in each transaction', async () => {
+    const orders: unknown[] = [];
+    const { ctx } = withStores(orders, []);
+    const log: unknown[] = [];
+
+    await runner.run(ctx, (_, cs) => {
+      cs.deferTxn('orders', (ctx, txn) => {
+        txnBag(ctx).set('id', 1);
+        afterCommit(ctx, () => log.push(['orders', [...orders]]));
+        afterRollback(ctx, () => log.push('rolled back'));
+        return txn.push(ctx, 'a');
+      });
+      cs.deferTxn('cache', (ctx) => {
+        expect(txnBag(ctx).has('id')).toBe(false);
+        afterCommit(ctx, () => log.push('cache'));
+      });
+    });
+
+    expect(log).toEqual([['orders', ['a']], 'cache']);
+  });
+
+  it('runs afterRollback for each rolled back transaction', async () => {
+    const { ctx } = withStores([], []);
+    const log: string[] = [];
+
+    await expect(
+      runner.run(ctx, (_, cs) => {
+        cs.deferTxn('orders', (ctx) => {
+          afterCommit(ctx, () => log.push('committed'));
+          afterRollback(ctx, () => log.push('orders'));
+        });
+        cs.deferTxn('cache', (ctx) => {
+          afterRollback(ctx, () => log.push('cache'));
+          throw new Error('Cache unavailable');
+        });
+      })
+    ).rejects.toThrow('Cache unavailable');
+
+    expect(log).toEqual(['orders', 'cache']);
+  });
+
+  it('commits every transaction even if an afterCommit callback fails', async () => {
+    const orders: unknown[] = [];
+    const cache: unknown[] = [];
+    const { ctx } = withStores(orders, cache);
+    const log: string[] = [];
+
+    await expect(
+      runner.run(ctx, (_, cs) => {
+        cs.deferTxn('orders', (ctx, txn) => {
+          afterCommit(ctx, () => {
+            throw new Error('Mail server down');
+          });
+          afterCommit(ctx, () => log.push('skipped'));
+          return txn.push(ctx, 'a');
+        });
+        cs.deferTxn('cache', (ctx, txn) => {
+          afterCommit(ctx, () => log.push('cache'));
+          afterCommit(ctx, () => {
+            throw new Error('Search index down');
+          });
+          afterRollback(ctx, () => log.push('rolled back'));
+          return txn.push(ctx, 'a');
+        });
+      })
+    ).rejects.toThrow('Transaction failed: Error: Mail server down');
+
+    expect(orders).toEqual(['a']);
+    expect(cache).toEqual(['a']);
+    expect(log).toEqual(['cache']);
+  });
+
+  it('rolls back all transactions if a callback fails', async () => {
+    const orders: unknown[] = [];
+    const cache: unknown[] = [];
+    const { ctx } = withStores(orders, cache);
+    const log: string[] = [];
+
+    const err = await catchErr<TxnFailedError>(
+      runner.run(ctx, (_, cs) => {
+        cs.deferTxn('orders', (ctx, txn) => txn.push(ctx, 'a'));
+        cs.deferTxn('cache', () => {
+          throw new Error('Cache unavailable');
+        });
+        cs.defer(() => log.push('not sent'));
+        cs.deferFail(() => log.push('failed'));
+      })
+    );
+
+    expect(err).toBeInstanceOf(TxnFailedError);
+    expect((<Error>err).message).toContain('Cache unavailable');
+    expect(orders).toEqual([]);
+    expect(cache).toEqual([]);
+    expect(log).toEqual(['failed']);
+  });
+
+  it('compensates through deferFail when a later commit fails', async () => {
+    const orders: unknown[] = [];
+    const cache: unknown[] = [];
+    const { ctx, cachePool } = withStores(orders, cache);
+
+    const beginTxn = cachePool.beginTxn.bind(cachePool);
+    cachePool.beginTxn = async (ctx, opts) => {
+      const txn = await beginTxn(ctx, opts);
+      txn.commit = () => Promise.reject(new Error('EXEC failed'));
+      return txn;
+    };
+
+    const err = await catchErr<TxnFailedError>(
+      runner.run(ctx, (_, cs) => {
+        cs.deferTxn('orders', (ctx, txn) => txn.push(ctx, 'a'));
+        cs.deferTxn('cache', (ctx, txn) => txn.push(ctx, 'a'));
+        cs.deferFail(() => orders.splice(orders.indexOf('a'), 1));
+      })
+    );
+
+    expect(err.phase).toBe('commit');
+    expect(err.message).toBe('Transaction failed: Error: EXEC failed');
+    expect(err.rollbackError).toBeUndefined();
+    expect(orders).toEqual([]);
+    expect(cache).toEqual([]);
+  });
+
+  it('reports rollback failure', async () => {
+    const { ctx, ordersPool } = withStores([], []);
+
+    const beginTxn = ordersPool.beginTxn.bind(ordersPool);
+    ordersPool.beginTxn = async (ctx, opts) => {
+      const txn = await beginTxn(ctx, opts);
+      txn.rollback = () => Promise.reject(new Error('Connection lost'));
+      return txn;
+    };
+
+    const err = await catchErr<TxnFailedError>(
+      runner.run(ctx, (_, cs) => {
+        cs.deferTxn('orders', () => {
+          throw new Error('Failing on purpose');
+        });
+      })
+    );
+
+    expect(err.phase).toBe('callback');
+    expect((<Error>err.rollbackError).message).toBe('Connection lost');
+  });
+
+  it('fails if a transactable is missing', async () => {
+    const ctx = Context.value(withStackConn, openStackPool([]));
+
+    const err = await catchErr<TxnFailedError>(
+      runner.run(ctx, (_, cs) => {
+        cs.deferTxn('cache', () => null);
+      })
+    );
+
+    expect(err.phase).toBe('begin');
+    expect(err.cause).toBeInstanceOf(NoTransactableError);
+  });
+
+  it('rejects unknown transaction names', async () => {
+    const { ctx } = withStores([], []);
+
+    const err = await catchErr<TxnFailedError>(
+      runner.run(ctx, (_, cs) => {
+        const untyped = <MultiTxnChangeSet<Record<string, StackTxn>>>(
+          (<unknown>cs)
+        );
+        untyped.deferTxn('search', () => null);
+      })
+    );
+
+    const cause = err.cause;
+    expect(cause).toBeInstanceOf(NoTxnAccessorError);
+    expect((<Error>cause).message).toBe(
+      "No transaction accessor named 'search'"
+    );
+
+    // Inherited object properties are not accessors
+    await expect(
+      runner.run(ctx, (_, cs) => {
+        const untyped = <MultiTxnChangeSet<Record<string, StackTxn>>>(
+          (<unknown>cs)
+        );
+        untyped.deferTxn('toString', () => null);
+      })
+    ).rejects.toThrow("No transaction accessor named 'toString'");
+  });
+});
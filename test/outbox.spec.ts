@@ -0,0 +1,165 @@
+// Copyright 2022 Joshua Honig. All rights reserved.
+// Use of this source code is governed by a MIT
+// license that can be found in the LICENSE file.
+
+import {
+  deferOutbox,
+  memOutboxStore,
+  multiTxnChangeSet,
+  OutboxMessage,
+  outboxRelay,
+  TxnFailedError,
+  txnChangeSet,
+} from '$';
+import { Context } from '@sabl/context';
+import { openStackPool, StackCtxAccessor, withStackConn } from './fixtures';
+
+describe('outbox', () => {
+  const runner = txnChangeSet(StackCtxAccessor);
+
+  it('delivers messages after commit', async () => {
+    const stack: unknown[] = [];
+    const ctx = Context.value(withStackConn, openStackPool(stack));
+    const store = memOutboxStore();
+    const sent: OutboxMessage[] = [];
+    const relay = outboxRelay(store, (_, msg) => sent.push(msg));
+
+    await runner.run(ctx, (_, cs) => {
+      cs.deferTxn((ctx, txn) => txn.push(ctx, 'order 1'));
+      deferOutbox(cs, store, 'orders', { id: 1 }, 'order created');
+      deferOutbox(cs, store, 'mail', 'welcome');
+
+      expect(cs.pending()[1].label).toBe('order created');
+    });
+
+    expect(await relay.drain(ctx)).toBe(2);
+    expect(stack).toEqual(['order 1']);
+    expect(sent.map((m) => [m.topic, m.payload])).toEqual([
+      ['orders', { id: 1 }],
+      ['mail', 'welcome'],
+    ]);
+    expect(sent[0].createdAt).toBeInstanceOf(Date);
+    expect(await store.fetch(ctx, 10)).toEqual([]);
+  });
+
+  it('discards messages if the transaction rolls back', async () => {
+    const ctx = Context.value(withStackConn, openStackPool([]));
+    const store = memOutboxStore();
+
+    await expect(
+      runner.run(ctx, (_, cs) => {
+        deferOutbox(cs, store, 'orders', 1);
+        cs.deferTxn(() => {
+          throw new Error('Constraint violation');
+        });
+      })
+    ).rejects.toBeInstanceOf(TxnFailedError);
+
+    expect(await store.fetch(ctx, 10)).toEqual([]);
+  });
+
+  it('adds messages within multiTxnChangeSet', async () => {
+    const ctx = Context.value(withStackConn, openStackPool([]));
+    const store = memOutboxStore();
+
+    await multiTxnChangeSet({ stack: StackCtxAccessor }).run(ctx, (_, cs) => {
+      cs.deferTxn('stack', (ctx, txn) =>
+        store.add(ctx, txn, [{ topic: 'orders', payload: 1 }])
+      );
+    });
+
+    const fetched = await store.fetch(ctx, 10);
+    expect(fetched.map((m) => m.payload)).toEqual([1]);
+  });
+
+  it('redelivers messages after dispatch fails', async () => {
+    const ctx = Context.value(withStackConn, openStackPool([]));
+    const store = memOutboxStore();
+    const sent: unknown[] = [];
+    let fail = true;
+    const relay = outboxRelay(store, (_, msg) => {
+      if (msg.payload == 2 && fail) {
+        fail = false;
+        throw new Error('Broker unavailable');
+      }
+      sent.push(msg.payload);
+    });
+
+    await runner.run(ctx, (_, cs) => {
+      for (const n of [1, 2, 3]) {
+        deferOutbox(cs, store, 'numbers', n);
+      }
+    });
+
+    await expect(relay.drain(ctx)).rejects.toThrow('Broker unavailable');
+    expect(sent).toEqual([1]);
+
+    expect(await relay.drain(ctx)).toBe(2);
+    expect(sent).toEqual([1, 2, 3]);
+  });
+
+  it('fetches in batches', async () => {
+    const ctx = Context.value(withStackConn, openStackPool([]));
+    const store = memOutboxStore();
+    const fetch = store.fetch.bind(store);
+    const limits: number[] = [];
+    store.fetch = (ctx, limit) => {
+      limits.push(limit);
+      return fetch(ctx, limit);
+    };
+
+    await runner.run(ctx, (_, cs) => {
+      for (let i = 0; i < 5; i++) {
+        deferOutbox(cs, store, 'numbers', i);
+      }
+    });
+
+    const relay = outboxRelay(store, () => null, { batchSize: 2 });
+    expect(await relay.drain(ctx)).toBe(5);
+    expect(limits).toEqual([2, 2, 2]);
+
+    // Empty final batch
+    limits.length = 0;
+    await runner.run(ctx, (_, cs) => {
+      deferOutbox(cs, store, 'numbers', 1);
+      deferOutbox(cs, store, 'numbers', 2);
+    });
+    expect(await relay.drain(ctx)).toBe(2);
+    expect(limits).toEqual([2, 2]);
+  });
+
+  it('shares a drain in progress', async () => {
+    const ctx = Context.value(withStackConn, openStackPool([]));
+    const store = memOutboxStore();
+    const sent: unknown[] = [];
+    const relay = outboxRelay(store, async (_, msg) => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      sent.push(msg.payload);
+    });
+
+    await runner.run(ctx, (_, cs) => {
+      deferOutbox(cs, store, 'numbers', 1);
+      deferOutbox(cs, store, 'numbers', 2);
+    });
+
+    const [a, b] = await Promise.all([relay.drain(ctx), relay.drain(ctx)]);
+    expect(a).toBe(2);
+    expect(b).toBe(2);
+    expect(sent).toEqual([1, 2]);
+  });
+
+  it('stops when canceled', async () => {
+    const [ctxCancel, cancel] = Context.cancel();
+    const ctx = ctxCancel.withValue(withStackConn, openStackPool([]));
+    const store = memOutboxStore();
+    const relay = outboxRelay(store, () => cancel());
+
+    await runner.run(ctx, (_, cs) => {
+      deferOutbox(cs, store, 'numbers', 1);
+      deferOutbox(cs, store, 'numbers', 2);
+    });
+
+    expect(await relay.drain(ctx)).toBe(1);
+    expect((await store.fetch(Context.background, 10)).length).toBe(1);
+  });
+});
@@ -0,0 +1,210 @@
+// Copyright 2022 Joshua Honig. All rights reserved.
+// Use of this source code is governed by a MIT
+// license that can be found in the LICENSE file.
+
+import {
+  Propagation,
+  txn,
+  TxnNotAllowedError,
+  TxnRequiredError,
+  TxnRunner,
+  withTxnAccessor,
+} from '$';
+import { catchErr } from '$test/lib/util';
+import { Context } from '@sabl/context';
+import {
+  openStackPool,
+  StackCtxAccessor,
+  StackTxn,
+  withStackConn,
+} from './fixtures';
+
+function testPropagation(
+  name: string,
+  fnRunner: () => TxnRunner<StackTxn>
+): void {
+  describe(name, () => {
+    const txnRunner = fnRunner();
+
+    describe('required', () => {
+      const opts = { propagation: <const>Propagation.required };
+
+      it('joins existing transaction', async () => {
+        const stack: unknown[] = ['a', 'b'];
+        const pool = openStackPool(stack);
+        const ctxRoot = Context.value(withStackConn, pool);
+
+        await txnRunner.run(ctxRoot, async (ctxOuter, txnOuter) => {
+          await txnRunner.run(ctxOuter, opts, async (ctxInner, txnInner) => {
+            expect(ctxInner).toBe(ctxOuter);
+            expect(txnInner).toBe(txnOuter);
+            await txnInner.push(ctxInner, 'c');
+          });
+
+          // Not yet committed
+          expect(stack).toEqual(['a', 'b']);
+        });
+
+        expect(stack).toEqual(['a', 'b', 'c']);
+      });
+
+      it('starts new transaction', async () => {
+        const stack: unknown[] = ['a', 'b'];
+        const pool = openStackPool(stack);
+        const ctxRoot = Context.value(withStackConn, pool);
+
+        await txnRunner.run(ctxRoot, opts, (ctx, txn) => txn.push(ctx, 'c'));
+
+        expect(stack).toEqual(['a', 'b', 'c']);
+      });
+    });
+
+    describe('requiresNew', () => {
+      const opts = { propagation: <const>Propagation.requiresNew };
+
+      it('suspends existing transaction', async () => {
+        const stack: unknown[] = ['a', 'b'];
+        const pool = openStackPool(stack);
+        const ctxRoot = Context.value(withStackConn, pool);
+
+        await expect(
+          txnRunner.run(ctxRoot, async (ctxOuter, txnOuter) => {
+            await txnOuter.push(ctxOuter, 'c');
+
+            await txnRunner.run(ctxOuter, opts, async (ctxInner, txnInner) => {
+              expect(txnInner).not.toBe(txnOuter);
+
+              // Outer changes not visible
+              expect(await txnInner.peek(ctxInner)).toBe('b');
+              await txnInner.push(ctxInner, 'd');
+            });
+
+            // Inner transaction committed independently
+            expect(stack).toEqual(['a', 'b', 'd']);
+
+            throw new Error('Failing on purpose');
+          })
+        ).rejects.toThrow('Failing on purpose');
+
+        // Outer transaction rolled back, inner still committed
+        expect(stack).toEqual(['a', 'b', 'd']);
+      });
+    });
+
+    describe('mandatory', () => {
+      const opts = { propagation: <const>Propagation.mandatory };
+
+      it('joins existing transaction', async () => {
+        const pool = openStackPool([]);
+        const ctxRoot = Context.value(withStackConn, pool);
+
+        await txnRunner.run(ctxRoot, async (ctxOuter, txnOuter) => {
+          await txnRunner.run(ctxOuter, opts, async (_, txnInner) => {
+            expect(txnInner).toBe(txnOuter);
+          });
+        });
+      });
+
+      it('rejects if no transaction', async () => {
+        const pool = openStackPool([]);
+        const ctxRoot = Context.value(withStackConn, pool);
+
+        await expect(
+          txnRunner.run(ctxRoot, opts, () => null)
+        ).rejects.toBeInstanceOf(TxnRequiredError);
+      });
+    });
+
+    describe('never', () => {
+      const opts = { propagation: <const>Propagation.never };
+
+      it('runs without transaction', async () => {
+        const pool = openStackPool([]);
+        const ctxRoot = Context.value(withStackConn, pool);
+
+        const result = await txnRunner.run(
+          ctxRoot,
+          { propagation: Propagation.never },
+          (ctx, txn: StackTxn | undefined) => {
+            expect(ctx).toBe(ctxRoot);
+            expect(txn).toBeUndefined();
+            return 'ok';
+          }
+        );
+
+        expect(result).toBe('ok');
+      });
+
+      it('rejects if there is a transaction', async () => {
+        const pool = openStackPool([]);
+        const ctxRoot = Context.value(withStackConn, pool);
+
+        const err = await txnRunner.run(ctxRoot, (ctx) =>
+          catchErr(txnRunner.run(ctx, opts, () => null))
+        );
+
+        expect(err).toBeInstanceOf(TxnNotAllowedError);
+      });
+    });
+
+    describe('supports', () => {
+      const opts = { propagation: <const>Propagation.supports };
+
+      it('joins existing transaction', async () => {
+        const pool = openStackPool([]);
+        const ctxRoot = Context.value(withStackConn, pool);
+
+        await txnRunner.run(ctxRoot, async (ctxOuter, txnOuter) => {
+          await txnRunner.run(ctxOuter, opts, async (_, txnInner) => {
+            expect(txnInner).toBe(txnOuter);
+          });
+        });
+      });
+
+      it('runs without transaction', async () => {
+        const pool = openStackPool([]);
+        const ctxRoot = Context.value(withStackConn, pool);
+
+        await txnRunner.run(
+          ctxRoot,
+          { propagation: Propagation.supports },
+          (ctx, txn: StackTxn | undefined) => {
+            expect(ctx).toBe(ctxRoot);
+            expect(txn).toBeUndefined();
+          }
+        );
+      });
+    });
+
+    describe('nested', () => {
+      const opts = { propagation: <const>Propagation.nested };
+
+      it('starts nested transaction', async () => {
+        const stack: unknown[] = ['a', 'b'];
+        const pool = openStackPool(stack, { nestedTxn: true });
+        const ctxRoot = Context.value(withStackConn, pool);
+
+        await txnRunner.in(ctxRoot, async (ctxOuter, txnOuter) => {
+          await txnRunner.in(ctxOuter, opts, async (ctxInner, txnInner) => {
+            expect(txnInner).not.toBe(txnOuter);
+            await txnInner.push(ctxInner, 'c');
+          });
+
+          // Inner committed to outer
+          expect(await txnOuter.peek(ctxOuter)).toBe('c');
+          expect(stack).toEqual(['a', 'b']);
+        });
+
+        expect(stack).toEqual(['a', 'b', 'c']);
+      });
+    });
+  });
+}
+
+testPropagation('explicit accessor', () => txn(StackCtxAccessor));
+
+testPropagation(
+  'context accessor',
+  () =>
+    <TxnRunner<StackTxn>>txn(Context.value(withTxnAccessor, StackCtxAccessor))
+);
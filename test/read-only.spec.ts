@@ -0,0 +1,189 @@
+// Copyright 2022 Joshua Honig. All rights reserved.
+// Use of this source code is governed by a MIT
+// license that can be found in the LICENSE file.
+
+import {
+  changeSet,
+  getTxnOptions,
+  multiTxnChangeSet,
+  Propagation,
+  txn,
+  txnChangeSet,
+  TxnFailedError,
+  TxnReadOnlyError,
+} from '$';
+import { catchErr } from '$test/lib/util';
+import { Context } from '@sabl/context';
+import { openStackPool, StackCtxAccessor, withStackConn } from './fixtures';
+
+async function catchReadOnly(p: Promise<unknown>): Promise<TxnReadOnlyError> {
+  const { cause } = await catchErr<TxnFailedError>(p);
+  expect(cause).toBeInstanceOf(TxnReadOnlyError);
+  return <TxnReadOnlyError>cause;
+}
+
+describe('readOnly', () => {
+  it('rejects marked methods', async () => {
+    const stack: unknown[] = ['a'];
+    const runner = txn(StackCtxAccessor, { mutatingMethods: ['push', 'pop'] });
+    const ctxRoot = Context.value(withStackConn, openStackPool(stack));
+
+    const err = await catchReadOnly(
+      runner.run(ctxRoot, { readOnly: true }, async (ctx, txn) => {
+        expect(await txn.peek(ctx)).toBe('a');
+        await txn.push(ctx, 'b');
+      })
+    );
+
+    expect(err.code).toBe('TXN_READ_ONLY');
+    expect(err.method).toBe('push');
+    expect(err.message).toBe('Cannot call push in a read-only transaction');
+    expect(stack).toEqual(['a']);
+  });
+
+  it('allows marked methods in read-write transactions', async () => {
+    const stack: unknown[] = [];
+    const runner = txn(StackCtxAccessor, { mutatingMethods: ['push'] });
+    const ctxRoot = Context.value(withStackConn, openStackPool(stack));
+
+    await runner.run(ctxRoot, (ctx, txn) => txn.push(ctx, 'a'));
+    await runner.run(ctxRoot, { readOnly: false }, (ctx, txn) =>
+      txn.push(ctx, 'b')
+    );
+
+    expect(stack).toEqual(['a', 'b']);
+  });
+
+  it('provides the wrapped transaction to joined callbacks', async () => {
+    const runner = txn(StackCtxAccessor, { mutatingMethods: ['push'] });
+    const ctxRoot = Context.value(withStackConn, openStackPool([]));
+
+    const err = await catchReadOnly(
+      runner.run(ctxRoot, { readOnly: true }, async (ctx) => {
+        await runner.in(ctx, (ctx, txn) => {
+          expect(StackCtxAccessor.getTxn(ctx)).toBe(txn);
+          return txn.push(ctx, 'a');
+        });
+      })
+    );
+
+    expect(err.method).toBe('push');
+  });
+
+  it('guards read-only callbacks joining a read-write transaction', async () => {
+    const stack: unknown[] = [];
+    const runner = txn(StackCtxAccessor, { mutatingMethods: ['push'] });
+    const ctxRoot = Context.value(withStackConn, openStackPool(stack));
+
+    await runner.run(ctxRoot, async (ctx, outer) => {
+      await expect(
+        runner.in(ctx, { readOnly: true }, (ctx, txn) => {
+          expect(txn).not.toBe(outer);
+          expect(StackCtxAccessor.getTxn(ctx)).toBe(txn);
+          expect(getTxnOptions(txn)).toBe(getTxnOptions(outer));
+          return txn.push(ctx, 'a');
+        })
+      ).rejects.toBeInstanceOf(TxnReadOnlyError);
+
+      await outer.push(ctx, 'b');
+    });
+
+    expect(stack).toEqual(['b']);
+  });
+
+  it('guards joined transactions not started by a runner', async () => {
+    const runner = txn(StackCtxAccessor, { mutatingMethods: ['push'] });
+    const pool = openStackPool([]);
+    const txnRaw = await pool.beginTxn(Context.background);
+    const ctx = Context.value(withStackConn, pool).withValue(
+      StackCtxAccessor.withTxn,
+      txnRaw
+    );
+
+    await expect(
+      runner.in(
+        ctx,
+        { readOnly: true, propagation: Propagation.mandatory },
+        (ctx, txn) => txn.push(ctx, 'a')
+      )
+    ).rejects.toBeInstanceOf(TxnReadOnlyError);
+    await expect(
+      runner.in(
+        ctx,
+        { readOnly: true, propagation: Propagation.supports },
+        (ctx, txn) => txn?.push(ctx, 'a')
+      )
+    ).rejects.toBeInstanceOf(TxnReadOnlyError);
+    await txnRaw.rollback();
+  });
+
+  it('rejects change set scheduling', async () => {
+    const log: string[] = [];
+    const runner = changeSet();
+
+    for (const schedule of ['defer', 'deferParallel', 'step']) {
+      const err = await catchReadOnly(
+        runner.run(Context.background, { readOnly: true }, (_, cs) => {
+          cs.deferFail(() => log.push('failed'));
+          if (schedule == 'defer') {
+            cs.defer(() => null);
+          } else if (schedule == 'deferParallel') {
+            cs.deferParallel('g', () => null);
+          } else {
+            cs.step(
+              () => null,
+              () => null
+            );
+          }
+        })
+      );
+      expect(err.method).toBe(schedule);
+    }
+
+    expect(log).toEqual(['failed', 'failed', 'failed']);
+  });
+
+  it('allows reads in read-only change sets', async () => {
+    const result = await changeSet().run(
+      Context.background,
+      { readOnly: true },
+      (_, cs) => {
+        expect(cs.pendingCount()).toBe(0);
+        return cs.state;
+      }
+    );
+
+    expect(result).toBe(1);
+  });
+
+  it('rejects deferTxn', async () => {
+    const ctxRoot = Context.value(withStackConn, openStackPool([]));
+
+    const err = await catchReadOnly(
+      txnChangeSet(StackCtxAccessor).run(ctxRoot, { readOnly: true }, (_, cs) =>
+        cs.deferTxn(() => null)
+      )
+    );
+    expect(err.method).toBe('deferTxn');
+
+    const multiErr = await catchReadOnly(
+      multiTxnChangeSet({ stack: StackCtxAccessor }).run(
+        ctxRoot,
+        { readOnly: true },
+        (_, cs) => cs.deferTxn('stack', () => null)
+      )
+    );
+    expect(multiErr.method).toBe('deferTxn');
+  });
+
+  it('adds marked methods to change sets', async () => {
+    const runner = changeSet({ mutatingMethods: ['deferFail'] });
+
+    const err = await catchReadOnly(
+      runner.run(Context.background, { readOnly: true }, (_, cs) =>
+        cs.deferFail(() => null)
+      )
+    );
+    expect(err.method).toBe('deferFail');
+  });
+});
@@ -0,0 +1,276 @@
+// Copyright 2022 Joshua Honig. All rights reserved.
+// Use of this source code is governed by a MIT
+// license that can be found in the LICENSE file.
+
+import { RetryPolicy, txn, TxnFailedError } from '$';
+import { retryDelay } from '$/retry';
+import { catchErr } from '$test/lib/util';
+import { Context } from '@sabl/context';
+import { openStackPool, StackCtxAccessor, withStackConn } from './fixtures';
+
+class ConflictError extends Error {
+  constructor() {
+    super('Serialization failure');
+  }
+}
+
+function conflictPolicy(maxAttempts: number): RetryPolicy {
+  return {
+    maxAttempts,
+    baseDelayMs: 1,
+    isRetryable: (err) => err instanceof ConflictError,
+  };
+}
+
+describe('retry', () => {
+  const txnRunner = txn(StackCtxAccessor);
+
+  it('retries a transient failure', async () => {
+    const stack: unknown[] = ['a', 'b'];
+    const pool = openStackPool(stack);
+    const ctxRoot = Context.value(withStackConn, pool);
+
+    let attempts = 0;
+    const result = await txnRunner.run(
+      ctxRoot,
+      { retry: conflictPolicy(3) },
+      async (ctx, txn) => {
+        attempts++;
+        await txn.push(ctx, 'c' + attempts);
+        if (attempts < 3) {
+          throw new ConflictError();
+        }
+        return attempts;
+      }
+    );
+
+    expect(result).toBe(3);
+
+    // Only the last attempt was committed
+    expect(stack).toEqual(['a', 'b', 'c3']);
+  });
+
+  it('retries within a cancelable context', async () => {
+    const stack: unknown[] = ['a', 'b'];
+    const pool = openStackPool(stack);
+    const [ctxCancel] = Context.cancel();
+    const ctxRoot = ctxCancel.withValue(withStackConn, pool);
+
+    let attempts = 0;
+    await txnRunner.run(
+      ctxRoot,
+      { retry: conflictPolicy(2) },
+      async (ctx, txn) => {
+        attempts++;
+        await txn.push(ctx, 'c' + attempts);
+        if (attempts < 2) {
+          throw new ConflictError();
+        }
+      }
+    );
+
+    expect(stack).toEqual(['a', 'b', 'c2']);
+  });
+
+  it('retries a conflict at commit', async () => {
+    const stack: unknown[] = ['a'];
+    const pool = openStackPool(stack);
+    const ctxRoot = Context.value(withStackConn, pool);
+
+    // Like many drivers, the first commit fails and ends the
+    // transaction, so the runner's rollback also fails
+    let commits = 0;
+    const beginTxn = pool.beginTxn.bind(pool);
+    pool.beginTxn = async (ctx, opts) => {
+      const txn = await beginTxn(ctx, opts);
+      const commit = txn.commit.bind(txn);
+      const rollback = txn.rollback.bind(txn);
+      txn.commit = async () => {
+        if (++commits > 1) {
+          return commit();
+        }
+        await rollback();
+        throw new ConflictError();
+      };
+      return txn;
+    };
+
+    let attempts = 0;
+    await txnRunner.run(
+      ctxRoot,
+      { retry: conflictPolicy(3) },
+      async (ctx, txn) => {
+        attempts++;
+        await txn.push(ctx, 'b' + attempts);
+      }
+    );
+
+    expect(attempts).toBe(2);
+    expect(stack).toEqual(['a', 'b2']);
+  });
+
+  it('does not retry a callback error if rollback fails', async () => {
+    const pool = openStackPool([]);
+    const ctxRoot = Context.value(withStackConn, pool);
+
+    let attempts = 0;
+    const err = await catchErr<TxnFailedError>(
+      txnRunner.run(ctxRoot, { retry: conflictPolicy(3) }, async (_, txn) => {
+        attempts++;
+        await txn.rollback();
+        throw new ConflictError();
+      })
+    );
+
+    expect(attempts).toBe(1);
+    expect(err.phase).toBe('callback');
+    expect(err.rollbackError).toBeDefined();
+  });
+
+  it('gives up after max attempts', async () => {
+    const stack: unknown[] = ['a', 'b'];
+    const pool = openStackPool(stack);
+    const ctxRoot = Context.value(withStackConn, pool);
+
+    let attempts = 0;
+    const conflict = new ConflictError();
+    const err = await catchErr<TxnFailedError>(
+      txnRunner.run(ctxRoot, { retry: conflictPolicy(3) }, async (ctx, txn) => {
+        attempts++;
+        await txn.push(ctx, 'c');
+        throw conflict;
+      })
+    );
+
+    expect(attempts).toBe(3);
+    expect(err.cause).toBe(conflict);
+    expect(stack).toEqual(['a', 'b']);
+  });
+
+  it('does not retry other errors', async () => {
+    const pool = openStackPool([]);
+    const ctxRoot = Context.value(withStackConn, pool);
+
+    let attempts = 0;
+    await expect(
+      txnRunner.run(ctxRoot, { retry: conflictPolicy(3) }, () => {
+        attempts++;
+        throw new Error('Not a conflict');
+      })
+    ).rejects.toThrow('Transaction failed: Error: Not a conflict');
+
+    expect(attempts).toBe(1);
+  });
+
+  it('does not retry within an existing transaction', async () => {
+    const pool = openStackPool([]);
+    const ctxRoot = Context.value(withStackConn, pool);
+
+    let attempts = 0;
+    await expect(
+      txnRunner.run(ctxRoot, (ctx) =>
+        txnRunner.in(ctx, { retry: conflictPolicy(3) }, () => {
+          attempts++;
+          throw new ConflictError();
+        })
+      )
+    ).rejects.toThrow('Serialization failure');
+
+    expect(attempts).toBe(1);
+  });
+
+  it('does not retry a nested transaction', async () => {
+    const pool = openStackPool([], { nestedTxn: true });
+    const ctxRoot = Context.value(withStackConn, pool);
+
+    let attempts = 0;
+    await expect(
+      txnRunner.run(ctxRoot, (ctx) =>
+        txnRunner.run(ctx, { retry: conflictPolicy(3) }, () => {
+          attempts++;
+          throw new ConflictError();
+        })
+      )
+    ).rejects.toThrow('Serialization failure');
+
+    expect(attempts).toBe(1);
+  });
+
+  it('gives up if context is already canceled', async () => {
+    const pool = openStackPool([]);
+    const [ctxCancel, cancel] = Context.cancel();
+    const ctxRoot = ctxCancel.withValue(withStackConn, pool);
+
+    let attempts = 0;
+    const policy: RetryPolicy = {
+      ...conflictPolicy(3),
+      isRetryable: () => {
+        // Canceled after the failed transaction was rolled back
+        cancel();
+        return true;
+      },
+    };
+
+    await expect(
+      txnRunner.run(ctxRoot, { retry: policy }, () => {
+        attempts++;
+        throw new ConflictError();
+      })
+    ).rejects.toThrow('Serialization failure');
+
+    expect(attempts).toBe(1);
+  });
+
+  it('gives up if context is canceled during backoff', async () => {
+    const pool = openStackPool([]);
+    const [ctxCancel, cancel] = Context.cancel();
+    const ctxRoot = ctxCancel.withValue(withStackConn, pool);
+
+    let attempts = 0;
+    const policy: RetryPolicy = {
+      ...conflictPolicy(3),
+      baseDelayMs: 60000,
+      jitter: false,
+    };
+
+    await expect(
+      txnRunner.run(ctxRoot, { retry: policy }, () => {
+        attempts++;
+        setTimeout(cancel, 5);
+        throw new ConflictError();
+      })
+    ).rejects.toThrow('Serialization failure');
+
+    expect(attempts).toBe(1);
+  });
+
+  describe('retryDelay', () => {
+    it('backs off exponentially up to the max', () => {
+      const policy: RetryPolicy = {
+        maxAttempts: 10,
+        baseDelayMs: 10,
+        maxDelayMs: 50,
+        jitter: false,
+        isRetryable: () => true,
+      };
+
+      expect(retryDelay(policy, 1)).toBe(10);
+      expect(retryDelay(policy, 2)).toBe(20);
+      expect(retryDelay(policy, 3)).toBe(40);
+      expect(retryDelay(policy, 4)).toBe(50);
+    });
+
+    it('applies jitter by default', () => {
+      const policy: RetryPolicy = {
+        maxAttempts: 10,
+        isRetryable: () => true,
+      };
+
+      for (let i = 0; i < 20; i++) {
+        const delay = retryDelay(policy, 3);
+        expect(delay).toBeGreaterThanOrEqual(0);
+        expect(delay).toBeLessThanOrEqual(40);
+      }
+    });
+  });
+});
@@ -0,0 +1,326 @@
+// Copyright 2022 Joshua Honig. All rights reserved.
+// Use of this source code is governed by a MIT
+// license that can be found in the LICENSE file.
+
+import {
+  afterCommit,
+  afterRollback,
+  memDecisionLog,
+  NoTransactableError,
+  NoTxnAccessorError,
+  PreparableTxn,
+  PreparableTxnAccessor,
+  twoPhase,
+  TxnFailedError,
+  txnBag,
+  TxnInDoubtError,
+} from '$';
+import { catchErr } from '$test/lib/util';
+import { Context } from '@sabl/context';
+import {
+  makeStackAccessor,
+  openStackPool,
+  StackCtxAccessor,
+  StackPool,
+  StackTxn,
+  withStackConn,
+} from './fixtures';
+
+type PrepStackTxn = StackTxn & PreparableTxn;
+
+const CacheCtxAccessor = makeStackAccessor('Cache');
+
+const participants = {
+  orders: <PreparableTxnAccessor<PrepStackTxn>>(<unknown>StackCtxAccessor),
+  cache: <PreparableTxnAccessor<PrepStackTxn>>(<unknown>CacheCtxAccessor),
+};
+
+function withStores(orders: unknown[], cache: unknown[]) {
+  const ordersPool = openStackPool(orders, { twoPhase: true });
+  const cachePool = openStackPool(cache, { twoPhase: true });
+  const ctx = Context.value(withStackConn, ordersPool).withValue(
+    CacheCtxAccessor.withConn,
+    cachePool
+  );
+  return { ctx, ordersPool, cachePool };
+}
+
+/** Patch each transaction begun by pool */
+function patchTxns(pool: StackPool, patch: (txn: PrepStackTxn) => void) {
+  const beginTxn = pool.beginTxn.bind(pool);
+  pool.beginTxn = async (ctx, opts) => {
+    const txn = await beginTxn(ctx, opts);
+    patch(<PrepStackTxn>txn);
+    return txn;
+  };
+}
+
+describe('twoPhase', () => {
+  it('commits all participants', async () => {
+    const orders: unknown[] = [];
+    const cache: unknown[] = [];
+    const { ctx } = withStores(orders, cache);
+    const log = memDecisionLog();
+    const coord = twoPhase(participants, log);
+
+    const result = await coord.run(ctx, async (ctx, txns) => {
+      expect(StackCtxAccessor.getTxn(ctx)).toBe(txns.orders);
+      expect(CacheCtxAccessor.getTxn(ctx)).toBe(txns.cache);
+      await txns.orders.push(ctx, 'order 1');
+      await txns.cache.push(ctx, 'order 1');
+      return 'done';
+    });
+
+    expect(result).toBe('done');
+    expect(orders).toEqual(['order 1']);
+    expect(cache).toEqual(['order 1']);
+    expect(await log.pending()).toEqual([]);
+  });
+
+  it('prepares all before committing any', async () => {
+    const { ctx, ordersPool, cachePool } = withStores([], []);
+    const steps: string[] = [];
+
+    for (const [name, pool] of [
+      ['orders', ordersPool],
+      ['cache', cachePool],
+    ] as const) {
+      patchTxns(pool, (txn) => {
+        const prepare = txn.prepare.bind(txn);
+        const commit = txn.commit.bind(txn);
+        txn.prepare = (id) => {
+          steps.push('prepare ' + id.split('.').pop());
+          return prepare(id);
+        };
+        txn.commit = () => {
+          steps.push('commit ' + name);
+          return commit();
+        };
+      });
+    }
+
+    await twoPhase(participants, memDecisionLog()).run(ctx, () => null);
+
+    expect(steps).toEqual([
+      'prepare orders',
+      'prepare cache',
+      'commit orders',
+      'commit cache',
+    ]);
+  });
+
+  it('rolls back all participants if the callback fails', async () => {
+    const orders: unknown[] = [];
+    const cache: unknown[] = [];
+    const { ctx } = withStores(orders, cache);
+    const log = memDecisionLog();
+
+    const err = await catchErr<TxnFailedError>(
+      twoPhase(participants, log).run(ctx, async (ctx, txns) => {
+        await txns.orders.push(ctx, 'a');
+        throw new Error('Failing on purpose');
+      })
+    );
+
+    expect(err).toBeInstanceOf(TxnFailedError);
+    expect(err.phase).toBe('callback');
+    expect(orders).toEqual([]);
+    expect(await log.pending()).toEqual([]);
+  });
+
+  it('runs afterCommit once every participant commits', async () => {
+    const orders: unknown[] = [];
+    const cache: unknown[] = [];
+    const { ctx } = withStores(orders, cache);
+    const log: unknown[] = [];
+
+    await twoPhase(participants, memDecisionLog()).run(
+      ctx,
+      async (ctx, txns) => {
+        txnBag(ctx).set('id', 1);
+        afterCommit(ctx, () => log.push([[...orders], [...cache]]));
+        afterRollback(ctx, () => log.push('rolled back'));
+        await txns.orders.push(ctx, 'a');
+        await txns.cache.push(ctx, 'a');
+        expect(txnBag(ctx).get('id')).toBe(1);
+      }
+    );
+
+    expect(log).toEqual([[['a'], ['a']]]);
+  });
+
+  it('runs afterRollback if the run fails', async () => {
+    const { ctx, cachePool } = withStores([], []);
+    const log: string[] = [];
+
+    patchTxns(cachePool, (txn) => {
+      txn.prepare = () => Promise.reject(new Error('Disk full'));
+    });
+
+    await expect(
+      twoPhase(participants, memDecisionLog()).run(ctx, (ctx) => {
+        afterCommit(ctx, () => log.push('committed'));
+        afterRollback(ctx, () => log.push('rolled back'));
+      })
+    ).rejects.toThrow('Disk full');
+
+    expect(log).toEqual(['rolled back']);
+  });
+
+  it('rolls back all participants if prepare fails', async () => {
+    const orders: unknown[] = [];
+    const cache: unknown[] = [];
+    const { ctx, cachePool } = withStores(orders, cache);
+    const log = memDecisionLog();
+
+    patchTxns(cachePool, (txn) => {
+      txn.prepare = () => Promise.reject(new Error('Disk full'));
+    });
+
+    const err = await catchErr<TxnFailedError>(
+      twoPhase(participants, log).run(ctx, async (ctx, txns) => {
+        await txns.orders.push(ctx, 'a');
+        await txns.cache.push(ctx, 'a');
+      })
+    );
+
+    expect(err.phase).toBe('prepare');
+    expect(err.message).toContain('Disk full');
+    expect(orders).toEqual([]);
+    expect(cache).toEqual([]);
+    expect(await log.pending()).toEqual([]);
+  });
+
+  it('keeps the record if rollback fails', async () => {
+    const { ctx, cachePool } = withStores([], []);
+    const log = memDecisionLog();
+    log.decide = () => Promise.reject(new Error('Log unavailable'));
+
+    patchTxns(cachePool, (txn) => {
+      txn.rollback = () => Promise.reject(new Error('Connection lost'));
+    });
+
+    const err = await catchErr<TxnFailedError>(
+      twoPhase(participants, log).run(ctx, () => null)
+    );
+
+    expect(err.phase).toBe('commit');
+    expect(err.message).toContain('Log unavailable');
+    expect((<Error>err.rollbackError).message).toBe('Connection lost');
+
+    const pending = await log.pending();
+    expect(pending.length).toBe(1);
+    expect(pending[0].participants).toEqual(['orders', 'cache']);
+    expect(pending[0].decision).toBeUndefined();
+  });
+
+  it('reports in-doubt commits and completes them on recovery', async () => {
+    const orders: unknown[] = [];
+    const cache: unknown[] = [];
+    const { ctx, cachePool } = withStores(orders, cache);
+    const log = memDecisionLog();
+    const coord = twoPhase(participants, log);
+
+    patchTxns(cachePool, (txn) => {
+      const commit = txn.commit.bind(txn);
+      txn.commit = () => {
+        txn.commit = commit;
+        return Promise.reject(new Error('Connection lost'));
+      };
+    });
+
+    const callbacks: string[] = [];
+    const err = await catchErr<TxnInDoubtError>(
+      coord.run(ctx, async (ctx, txns) => {
+        afterCommit(ctx, () => callbacks.push('committed'));
+        afterRollback(ctx, () => callbacks.push('rolled back'));
+        await txns.orders.push(ctx, 'a');
+        await txns.cache.push(ctx, 'a');
+      })
+    );
+
+    expect(err).toBeInstanceOf(TxnInDoubtError);
+    expect(callbacks).toEqual([]);
+    expect(err.code).toBe('TXN_IN_DOUBT');
+    expect(err.message).toContain('Connection lost');
+    expect(err.errors.length).toBe(1);
+    expect(orders).toEqual(['a']);
+    expect(cache).toEqual([]);
+
+    const recovered = await coord.recover(ctx);
+    expect(recovered).toEqual([
+      { id: err.id, participants: ['orders', 'cache'], decision: 'commit' },
+    ]);
+    expect(cache).toEqual(['a']);
+    expect(await log.pending()).toEqual([]);
+  });
+
+  it('rolls back undecided transactions on recovery', async () => {
+    const cache: unknown[] = [];
+    const { ctx, cachePool } = withStores([], cache);
+    const log = memDecisionLog();
+
+    // Simulate a crash after prepare, before the decision
+    const txn = <PrepStackTxn>await cachePool.beginTxn(ctx);
+    await txn.push(ctx, 'a');
+    await txn.prepare('crashed.cache');
+    expect(() => txn.push(ctx, 'b')).toThrow('prepared');
+    await expect(txn.rollback()).rejects.toThrow('prepared');
+    await log.begin('crashed', ['orders', 'cache']);
+
+    const recovered = await twoPhase(participants, log).recover(ctx);
+
+    expect(recovered.map((r) => r.id)).toEqual(['crashed']);
+    expect(cache).toEqual([]);
+    expect(await log.pending()).toEqual([]);
+  });
+
+  it('fails if a transactable is missing', async () => {
+    const ctx = Context.value(
+      withStackConn,
+      openStackPool([], { twoPhase: true })
+    );
+    const log = memDecisionLog();
+    const coord = twoPhase(participants, log);
+
+    const err = await catchErr<TxnFailedError>(coord.run(ctx, () => null));
+
+    expect(err.phase).toBe('begin');
+    expect(err.cause).toBeInstanceOf(NoTransactableError);
+
+    await log.begin('crashed', ['cache']);
+    await expect(coord.recover(ctx)).rejects.toBeInstanceOf(
+      NoTransactableError
+    );
+  });
+
+  it('fails to recover unknown participants', async () => {
+    const { ctx } = withStores([], []);
+    const log = memDecisionLog();
+    await log.begin('crashed', ['search']);
+
+    await expect(twoPhase(participants, log).recover(ctx)).rejects.toThrow(
+      new NoTxnAccessorError('search')
+    );
+  });
+});
+
+describe('memDecisionLog', () => {
+  it('records decisions', async () => {
+    const log = memDecisionLog();
+    await log.begin('a', ['x', 'y']);
+    await log.begin('b', ['x']);
+    await log.decide('a', 'commit');
+    await log.complete('b');
+
+    expect(await log.pending()).toEqual([
+      { id: 'a', participants: ['x', 'y'], decision: 'commit' },
+    ]);
+  });
+
+  it('rejects decisions for unknown transactions', async () => {
+    await expect(memDecisionLog().decide('a', 'rollback')).rejects.toThrow(
+      'Unknown transaction: a'
+    );
+  });
+});
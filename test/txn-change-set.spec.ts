@@ -2,9 +2,20 @@
 // Use of this source code is governed by a MIT
 // license that can be found in the LICENSE file.
 
-import { txnChangeSet, withTxnAccessor } from '$';
+import {
+  ChangeSetState,
+  TxnChangeSet,
+  txnChangeSet,
+  TxnCompletedError,
+  withTxnAccessor,
+} from '$';
 import { Context } from '@sabl/context';
-import { openStackPool, StackCtxAccessor, withStackConn } from './fixtures';
+import {
+  openStackPool,
+  StackCtxAccessor,
+  StackTxn,
+  withStackConn,
+} from './fixtures';
 
 describe('txnChangeSet', () => {
   const txnCsRunner = txnChangeSet(StackCtxAccessor);
@@ -43,6 +54,20 @@ describe('txnChangeSet', () => {
       expect(errLog).toEqual([]);
     });
 
+    it('resolves to the callback result', async () => {
+      const stack: unknown[] = ['a', 'b'];
+      const pool = openStackPool(stack);
+      const ctxRoot = Context.value(withStackConn, pool);
+
+      const result = await txnCsRunner.run(ctxRoot, (ctx, cs) => {
+        cs.deferTxn((ctx, txn) => txn.push(ctx, 'c'));
+        return { id: 42 };
+      });
+
+      expect(result).toEqual({ id: 42 });
+      expect(stack).toEqual(['a', 'b', 'c']);
+    });
+
     it('does not open a transaction if no txn callbacks', async () => {
       const stack: unknown[] = ['a', 'b'];
       const pool = openStackPool(stack);
@@ -168,6 +193,103 @@ describe('txnChangeSet', () => {
       // Error callback WAS invoked:
       expect(errLog).toEqual(['Called error callback']);
     });
+
+    it('after txn compensates completed steps', async () => {
+      const stack: unknown[] = ['a', 'b'];
+      const pool = openStackPool(stack);
+      const ctxRoot = Context.value(withStackConn, pool);
+
+      const log: string[] = [];
+
+      await expect(
+        txnCsRunner.run(ctxRoot, (_, cs) => {
+          cs.deferTxn((ctx, txn) => txn.push(ctx, 'c'));
+
+          cs.step(
+            () => log.push('Sent c'),
+            () => log.push('Recalled c')
+          );
+
+          cs.defer(() => {
+            throw new Error('Failing on purpose');
+          });
+        })
+      ).rejects.toThrow('Failing on purpose');
+
+      // Txn WAS committed:
+      expect(stack).toEqual(['a', 'b', 'c']);
+
+      // Completed step WAS compensated:
+      expect(log).toEqual(['Sent c', 'Recalled c']);
+    });
+  });
+
+  describe('re-entrancy', () => {
+    it('rejects deferTxn after commit', async () => {
+      const pool = openStackPool([]);
+      const ctxRoot = Context.value(withStackConn, pool);
+
+      let csRef: TxnChangeSet<StackTxn> | undefined;
+      await txnCsRunner.run(ctxRoot, (_, cs) => {
+        csRef = cs;
+      });
+
+      expect(() =>
+        (<TxnChangeSet<StackTxn>>csRef).deferTxn(() => null)
+      ).toThrow(TxnCompletedError);
+    });
+
+    it('rejects deferTxn from a transaction callback', async () => {
+      const stack: unknown[] = [];
+      const pool = openStackPool(stack);
+      const ctxRoot = Context.value(withStackConn, pool);
+
+      await expect(
+        txnCsRunner.run(ctxRoot, (_, cs) => {
+          cs.deferTxn(async (ctx, txn) => {
+            await txn.push(ctx, 'a');
+            cs.deferTxn((ctx, txn) => txn.push(ctx, 'b'));
+          });
+        })
+      ).rejects.toThrow('cannot be modified by its own callbacks');
+
+      expect(stack).toEqual([]);
+    });
+  });
+
+  describe('introspection', () => {
+    it('counts pending deferTxn callbacks', async () => {
+      const pool = openStackPool([]);
+      const ctxRoot = Context.value(withStackConn, pool);
+
+      await txnCsRunner.run(ctxRoot, (_, cs) => {
+        cs.deferTxn((ctx, txn) => txn.push(ctx, 'a'), 'push a');
+        cs.defer(() => {
+          expect(cs.pendingCount('deferTxn')).toBe(0);
+          expect(cs.state).toBe(ChangeSetState.committing);
+        });
+
+        expect(cs.pendingCount('deferTxn')).toBe(1);
+        expect(cs.pending()[0].label).toBe('push a');
+      });
+    });
+
+    it('reports failed state when transaction fails', async () => {
+      const pool = openStackPool([]);
+      const ctxRoot = Context.value(withStackConn, pool);
+      const states: ChangeSetState[] = [];
+
+      await expect(
+        txnCsRunner.run(ctxRoot, (_, cs) => {
+          cs.deferTxn(() => {
+            throw new Error('Failing on purpose');
+          });
+          cs.deferFail(() => states.push(cs.state));
+        })
+      ).rejects.toThrow('Failing on purpose');
+
+      expect(states).toEqual([ChangeSetState.rollingBack]);
+    });
   });
 
   describe('context accessors', () => {
@@ -175,6 +297,7 @@ describe('txnChangeSet', () => {
       const rootCtx = Context.value(withTxnAccessor, StackCtxAccessor);
       const runner = txnChangeSet(rootCtx);
       expect(runner.run).toBeInstanceOf(Function);
+      expect(txnChangeSet(rootCtx, {}).run).toBeInstanceOf(Function);
     });
 
     it('fails if no accessors set', () => {
@@ -182,5 +305,29 @@ describe('txnChangeSet', () => {
         'No transaction accessors defined on context'
       );
     });
+
+    it('gets named accessors from context', async () => {
+      const stack: unknown[] = [];
+      const rootCtx = withTxnAccessor(
+        Context.background,
+        'stack',
+        StackCtxAccessor
+      ).withValue(withStackConn, openStackPool(stack));
+
+      await txnChangeSet(rootCtx, 'stack').run(rootCtx, (_, cs) => {
+        cs.deferTxn((ctx, txn) => (<StackTxn>txn).push(ctx, 'a'));
+      });
+      await txnChangeSet(rootCtx, 'stack', {}).run(rootCtx, (_, cs) => {
+        cs.deferTxn((ctx, txn) => (<StackTxn>txn).push(ctx, 'b'));
+      });
+      expect(stack).toEqual(['a', 'b']);
+
+      expect(() => txnChangeSet(rootCtx)).toThrow(
+        'No transaction accessors defined on context'
+      );
+      expect(() => txnChangeSet(rootCtx, 'search')).toThrow(
+        "No transaction accessor named 'search'"
+      );
+    });
   });
 });
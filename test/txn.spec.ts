@@ -4,6 +4,7 @@
 
 /* eslint-disable @typescript-eslint/no-non-null-assertion */
 import {
+  getTxnAccessor,
   Txn,
   txn,
   TxnCallback,
@@ -13,6 +14,7 @@ import {
 } from '$';
 import { Context, IContext } from '@sabl/context';
 import {
+  makeStackAccessor,
   openStackPool,
   StackCtxAccessor,
   StackTxn,
@@ -43,6 +45,18 @@ function testRunTxn(fnRunTxn: RunCallback<StackTxn>): void {
     expect(stack).toEqual(['a', 'b', 'c']);
   });
 
+  it('resolves to the callback result', async () => {
+    const pool = openStackPool(['a', 'b']);
+    const ctxRoot = Context.value(withStackConn, pool);
+
+    const run = <
+      (ctx: IContext, fn: TxnCallback<StackTxn, number>) => Promise<number>
+    >(<unknown>fnRunTxn);
+
+    const len = await run(ctxRoot, (ctx, txn) => txn.push(ctx, 'c'));
+    expect(len).toBe(3);
+  });
+
   it('handles throw non-error', async () => {
     const pool = openStackPool([]);
     const ctxRoot = Context.value(withStackConn, pool);
@@ -211,6 +225,40 @@ function testTxnModes(txnRunner: TxnRunner<StackTxn>): void {
       // Now both are committed
       expect(stack).toEqual(['a', 'b', 'c', 'd']);
     });
+
+    it('emulates nested transaction with savepoints', async () => {
+      const stack: unknown[] = ['a', 'b'];
+      const pool = openStackPool(stack, { savepoints: true });
+      const ctxRoot = Context.value(withStackConn, pool);
+
+      await txnRunner.run(ctxRoot, async (ctxOuter, txnOuter) => {
+        await txnOuter.push(ctxOuter, 'c');
+
+        // Inner failure rolls back only the inner block
+        await expect(
+          txnRunner.run(ctxOuter, async (ctxInner, txnInner) => {
+            expect(txnInner).toBe(txnOuter);
+            await txnInner.push(ctxInner, 'x');
+            throw new Error('Failing on purpose');
+          })
+        ).rejects.toThrow('Failing on purpose');
+
+        expect(await txnOuter.peek(ctxOuter)).toBe('c');
+
+        // Inner success is kept in the outer transaction
+        await txnRunner.run(ctxOuter, (ctxInner, txnInner) =>
+          txnInner.push(ctxInner, 'd')
+        );
+
+        expect(await txnOuter.peek(ctxOuter)).toBe('d');
+
+        // Not yet committed
+        expect(stack).toEqual(['a', 'b']);
+      });
+
+      // Outer transaction includes successful inner block
+      expect(stack).toEqual(['a', 'b', 'c', 'd']);
+    });
   });
 
   describe('in', () => {
@@ -242,6 +290,20 @@ function testTxnModes(txnRunner: TxnRunner<StackTxn>): void {
       // Automatically committed
       expect(stack).toEqual(['a', 'b', 'c']);
     });
+
+    it('resolves to result from existing transaction', async () => {
+      const pool = openStackPool(['a', 'b']);
+      const ctxRoot = Context.value(withStackConn, pool);
+
+      const result = await txnRunner.in(ctxRoot, async (ctxOuter) => {
+        const inner = await txnRunner.in(ctxOuter, (ctxInner, txnInner) =>
+          txnInner.peek(ctxInner)
+        );
+        return `inner: ${inner}`;
+      });
+
+      expect(result).toBe('inner: b');
+    });
   });
 }
 
@@ -253,8 +315,60 @@ describe('context accessor', () => {
   const rootCtx = Context.value(withTxnAccessor, StackCtxAccessor);
 
   testTxnModes(<TxnRunner<StackTxn>>txn(rootCtx));
+  testTxnModes(<TxnRunner<StackTxn>>txn(rootCtx, { hooks: [] }));
 
   it('throws if no accessor on context', () => {
     expect(() => txn(Context.background)).toThrow('No transaction accessors');
   });
 });
+
+describe('named context accessor', () => {
+  const ctxAnalytics = Symbol('analytics');
+  const AnalyticsAccessor = makeStackAccessor('Analytics');
+  const rootCtx = withTxnAccessor(
+    withTxnAccessor(Context.background, 'stack', StackCtxAccessor),
+    ctxAnalytics,
+    AnalyticsAccessor
+  );
+
+  testTxnModes(<TxnRunner<StackTxn>>txn(rootCtx, 'stack'));
+
+  it('resolves accessors by name or token', () => {
+    expect(getTxnAccessor(rootCtx, 'stack')).toBe(StackCtxAccessor);
+    expect(getTxnAccessor(rootCtx, ctxAnalytics)).toBe(AnalyticsAccessor);
+    expect(getTxnAccessor(rootCtx)).toBeNull();
+  });
+
+  it('keeps the default accessor separate', async () => {
+    const analytics: unknown[] = [];
+    const ctx = rootCtx
+      .withValue(withTxnAccessor, StackCtxAccessor)
+      .withValue(withStackConn, openStackPool([]))
+      .withValue(AnalyticsAccessor.withConn, openStackPool(analytics));
+
+    expect(getTxnAccessor(ctx)).toBe(StackCtxAccessor);
+
+    const runner = txn(ctx, ctxAnalytics, { hooks: [] });
+    await runner.run(ctx, (ctx, txn) => {
+      expect(AnalyticsAccessor.getTxn(ctx)).toBe(txn);
+      return (<StackTxn>txn).push(ctx, 'event');
+    });
+    expect(analytics).toEqual(['event']);
+  });
+
+  it('does not affect parent contexts', () => {
+    const childCtx = withTxnAccessor(rootCtx, 'stack', AnalyticsAccessor);
+    expect(getTxnAccessor(childCtx, 'stack')).toBe(AnalyticsAccessor);
+    expect(getTxnAccessor(childCtx, ctxAnalytics)).toBe(AnalyticsAccessor);
+    expect(getTxnAccessor(rootCtx, 'stack')).toBe(StackCtxAccessor);
+  });
+
+  it('throws if no accessor has the name', () => {
+    expect(() => txn(rootCtx, 'search')).toThrow(
+      "No transaction accessor named 'search'"
+    );
+    expect(() => txn(Context.background, Symbol('search'))).toThrow(
+      "No transaction accessor named 'Symbol(search)'"
+    );
+  });
+});